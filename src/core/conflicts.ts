@@ -0,0 +1,129 @@
+import { type ParsedTrigger, triggerToken, sequenceToString } from "./triggers.js";
+
+/**
+ * The kinds of conflicts reported by `getConflicts()`:
+ * - `"combination"`: two combinations share a trigger.
+ * - `"sequence"`: two sequences are identical.
+ * - `"sequencePrefix"`: a sequence is a prefix of a longer one (the first id is the shorter sequence).
+ * - `"combinationShadowsSequence"`: a combination uses the first key of a sequence (the first id is the combination).
+ */
+export type ConflictType = "combination" | "sequence" | "sequencePrefix" | "combinationShadowsSequence";
+
+/**
+ * What `Hotkeys` does when a new shortcut conflicts with a registered one:
+ * log a warning, refuse the shortcut with an error, or do nothing.
+ */
+export type ConflictPolicy = "warn" | "error" | "ignore";
+
+/**
+ * The `context` of a shortcut: one context, several, or `null` for a global shortcut.
+ */
+export type ShortcutContext = string | string[] | null;
+
+/**
+ * A conflict between two registered shortcuts.
+ */
+export interface ShortcutConflict {
+    type: ConflictType;
+    /** The ids of the two shortcuts involved. */
+    ids: [string, string];
+    /** The contexts of the two shortcuts, in the same order as `ids`. */
+    contexts: [ShortcutContext, ShortcutContext];
+    /** The overlapping keys in canonical string form, e.g. `"ctrl+s"` or `"g -> i"`. */
+    keys: string;
+}
+
+/**
+ * The parts of a registered shortcut that conflict detection looks at.
+ * @internal
+ */
+export interface ConflictSubject {
+    id: string;
+    context: ShortcutContext;
+    when?: string;
+    /** Shortcuts can only conflict when they listen on the same stream (target, event type and options). */
+    stream: unknown;
+    triggers?: ParsedTrigger[];
+    sequence?: ParsedTrigger[];
+}
+
+/**
+ * Finds the conflicts between a shortcut and a set of other shortcuts.
+ * For symmetric conflicts, the id from `others` comes first.
+ * @param subject The shortcut to check.
+ * @param others The shortcuts to check it against. Entries with the same id are skipped.
+ * @param contextsOverlap Tells whether two shortcut contexts can be active at the same time.
+ * @internal
+ */
+export function findConflicts(
+    subject: ConflictSubject,
+    others: Iterable<ConflictSubject>,
+    contextsOverlap: (a: ShortcutContext, b: ShortcutContext) => boolean,
+): ShortcutConflict[] {
+    const conflicts: ShortcutConflict[] = [];
+    for (const other of others) {
+        if (other.id === subject.id || other.stream !== subject.stream || !contextsOverlap(subject.context, other.context)) {
+            continue;
+        }
+        // Different `when` clauses are assumed to be mutually exclusive.
+        if (subject.when != null && other.when != null && subject.when !== other.when) {
+            continue;
+        }
+        const conflict = compareShortcuts(other, subject) ?? compareShortcuts(subject, other);
+        if (conflict) {
+            conflicts.push(conflict);
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Compares two shortcuts, reporting a conflict with `a` first.
+ * Asymmetric conflicts (a prefix, a shadowed sequence) are only found in one direction.
+ */
+function compareShortcuts(a: ConflictSubject, b: ConflictSubject): ShortcutConflict | null {
+    const create = (type: ConflictType, keys: ParsedTrigger[]): ShortcutConflict => ({
+        type,
+        ids: [a.id, b.id],
+        contexts: [a.context, b.context],
+        keys: sequenceToString(keys),
+    });
+
+    if (a.triggers && b.triggers) {
+        const tokens = new Set(b.triggers.map(triggerToken));
+        const shared = a.triggers.find(trigger => tokens.has(triggerToken(trigger)));
+        return shared ? create("combination", [shared]) : null;
+    }
+    if (a.triggers && b.sequence) {
+        const firstToken = triggerToken(b.sequence[0]);
+        const shared = a.triggers.find(trigger => triggerToken(trigger) === firstToken);
+        return shared ? create("combinationShadowsSequence", [shared]) : null;
+    }
+    if (a.sequence && b.sequence && a.sequence.length <= b.sequence.length) {
+        const isPrefix = a.sequence.every((step, i) => triggerToken(step) === triggerToken(b.sequence![i]));
+        if (isPrefix) {
+            return create(a.sequence.length === b.sequence.length ? "sequence" : "sequencePrefix", a.sequence);
+        }
+    }
+    return null;
+}
+
+/**
+ * Describes a conflict in a sentence, for log messages.
+ * @internal
+ */
+export function describeConflict({ type, ids: [first, second], contexts, keys }: ShortcutConflict): string {
+    const [contextA, contextB] = contexts.map(context => Array.isArray(context) ? context.join(", ") : context);
+    const where = contextA == null && contextB == null ? "globally"
+        : contextA === contextB ? `in context "${contextA}"`
+        : `in contexts "${contextA}" and "${contextB}"`;
+    switch (type) {
+        case "combination":
+        case "sequence":
+            return `"${first}" and "${second}" are both bound to "${keys}" ${where}`;
+        case "sequencePrefix":
+            return `sequence "${first}" (${keys}) is a prefix of sequence "${second}" ${where}`;
+        case "combinationShadowsSequence":
+            return `combination "${first}" (${keys}) shadows the first key of sequence "${second}" ${where}`;
+    }
+}
@@ -0,0 +1,163 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { type VSCodeKeybinding, fromVSCodeKeybindings, fromElectronAccelerator, toElectronAccelerator } from "./converters.js";
+
+describe("converters", () => {
+    describe("fromVSCodeKeybindings", () => {
+        it("should convert keys, chords and when clauses", () => {
+            const result = fromVSCodeKeybindings(`[
+                // Comments and trailing commas are allowed, as in VS Code
+                { "key": "ctrl+shift+alt+k", "command": "editor.action.deleteLines", "when": "editorTextFocus && !editorReadonly" },
+                { "key": "ctrl+k ctrl+c", "command": "editor.action.addCommentLine" }, /* a chord */
+                { "key": "cmd+[KeyZ]", "command": "undo" },
+                { "key": "shift+= numpad_add", "command": "zoomIn" },
+                { "key": "pausebreak", "command": "debug.pause" },
+            ]`);
+            assert.deepStrictEqual(result.shortcuts, [
+                { id: "editor.action.deleteLines", keys: "ctrl+alt+shift+k", when: "editorTextFocus && !editorReadonly" },
+                { id: "editor.action.addCommentLine", sequence: "ctrl+k -> ctrl+c" },
+                { id: "undo", keys: "meta+[KeyZ]" },
+                { id: "zoomIn", sequence: "shift+[Equal] -> [NumpadAdd]" },
+                { id: "debug.pause", keys: "Pause" },
+            ]);
+            assert.deepStrictEqual(result.diagnostics, []);
+        });
+
+        it("should give further bindings of a command their own ID", () => {
+            const { shortcuts } = fromVSCodeKeybindings([
+                { key: "f5", command: "run" },
+                { key: "ctrl+enter", command: "run" },
+                { key: "ctrl+shift+enter", command: "run" },
+            ]);
+            assert.deepStrictEqual(shortcuts.map(shortcut => shortcut.id), ["run", "run#2", "run#3"]);
+        });
+
+        it("should apply and report removals", () => {
+            const { shortcuts, removals } = fromVSCodeKeybindings([
+                { key: "f5", command: "run" },
+                { key: "ctrl+enter", command: "run" },
+                { key: "tab", command: "acceptSuggestion", when: "suggestWidgetVisible" },
+                { key: "ctrl+enter", command: "-run" },
+                { key: "", command: "-acceptSuggestion", when: "suggestWidgetVisible" },
+                { key: "ctrl+k ctrl+x", command: "-editor.action.trimTrailingWhitespace" },
+            ]);
+            assert.deepStrictEqual(shortcuts, [{ id: "run", keys: "F5" }]);
+            assert.deepStrictEqual(removals, [
+                { command: "run", keys: "ctrl+Enter" },
+                { command: "acceptSuggestion", when: "suggestWidgetVisible" },
+                { command: "editor.action.trimTrailingWhitespace", keys: "ctrl+k -> ctrl+x" },
+            ]);
+        });
+
+        it("should report what it cannot convert", () => {
+            const result = fromVSCodeKeybindings([
+                { key: "ctrl+oem_8", command: "a" },
+                { key: "hyper+a", command: "b" },
+                { key: "ctrl+b", command: "c", when: "editorFocus &&" },
+                { key: "ctrl+d", command: "d", args: { text: "x" }, mac: "cmd+d" },
+                { key: "ctrl+e" },
+                "ctrl+f",
+            ] as VSCodeKeybinding[]);
+            assert.deepStrictEqual(result.shortcuts, [{ id: "d", keys: "ctrl+d" }]);
+            assert.deepStrictEqual(result.diagnostics.map(({ severity, index, source }) => [severity, index, source]), [
+                ["error", 0, "ctrl+oem_8"],
+                ["error", 1, "hyper+a"],
+                ["error", 2, "editorFocus &&"],
+                ["warning", 3, "mac"],
+                ["warning", 3, "args"],
+                ["error", 4, "{\"key\":\"ctrl+e\"}"],
+                ["error", 5, "\"ctrl+f\""],
+            ]);
+            assert.match(result.diagnostics[0].message, /Unsupported key "oem_8"/);
+            assert.match(result.diagnostics[1].message, /Unknown modifier "hyper"/);
+            assert.match(result.diagnostics[2].message, /Invalid "when" clause: Expected a context key at position 14/);
+        });
+
+        it("should report a file that is not an array", () => {
+            assert.deepStrictEqual(fromVSCodeKeybindings("{ \"key\": \"a\" }").diagnostics.map(d => d.message), ["Expected an array of keybindings."]);
+            assert.match(fromVSCodeKeybindings("[{").diagnostics[0].message, /Invalid JSON/);
+        });
+    });
+
+    describe("fromElectronAccelerator", () => {
+        it("should convert modifiers and keys", () => {
+            const cases: Array<[string, string]> = [
+                ["CmdOrCtrl+Shift+K", "mod+shift+k"],
+                ["CommandOrControl+Plus", "mod+plus"],
+                ["Command+Option+Up", "alt+meta+ArrowUp"],
+                ["Super+Return", "meta+Enter"],
+                ["ctrl+esc", "ctrl+Escape"],
+                ["Alt+Space", "alt+space"],
+                ["num5", "[Numpad5]"],
+                ["F12", "F12"],
+                ["Shift+/", "shift+/"],
+                ["MediaNextTrack", "MediaTrackNext"],
+            ];
+            for (const [accelerator, keys] of cases) {
+                assert.deepStrictEqual(fromElectronAccelerator(accelerator), { keys, diagnostics: [] }, accelerator);
+            }
+        });
+
+        it("should report accelerators it cannot convert", () => {
+            const cases: Array<[string, RegExp]> = [
+                ["AltGr+E", /AltGr modifier is not supported/],
+                ["Hyper+A", /Unknown modifier "Hyper"/],
+                ["Ctrl+", /Missing key/],
+                ["F24", /Unsupported key "F24"/],
+            ];
+            for (const [accelerator, message] of cases) {
+                const { keys, diagnostics } = fromElectronAccelerator(accelerator);
+                assert.strictEqual(keys, null);
+                assert.strictEqual(diagnostics.length, 1);
+                assert.strictEqual(diagnostics[0].severity, "error");
+                assert.match(diagnostics[0].message, message);
+            }
+        });
+    });
+
+    describe("toElectronAccelerator", () => {
+        it("should convert modifiers and keys", () => {
+            const cases: Array<[string, string]> = [
+                ["mod+shift+k", "CmdOrCtrl+Shift+K"],
+                ["shift+ctrl+plus", "Ctrl+Shift+Plus"],
+                ["meta+ArrowUp", "Super+Up"],
+                ["escape", "Escape"],
+                ["space", "Space"],
+                ["f5", "F5"],
+                ["[Numpad5]", "num5"],
+                ["[F1]", "F1"],
+                ["ctrl+[Enter]", "Ctrl+Enter"],
+            ];
+            for (const [keys, accelerator] of cases) {
+                assert.deepStrictEqual(toElectronAccelerator(keys), { accelerator, diagnostics: [] }, keys);
+            }
+        });
+
+        it("should round-trip with fromElectronAccelerator", () => {
+            for (const accelerator of ["CmdOrCtrl+Shift+K", "Ctrl+Alt+Delete", "Super+Plus", "Shift+F10", "num0", "VolumeUp"]) {
+                assert.strictEqual(toElectronAccelerator(fromElectronAccelerator(accelerator).keys!).accelerator, accelerator);
+            }
+        });
+
+        it("should warn when a physical key becomes a character", () => {
+            const { accelerator, diagnostics } = toElectronAccelerator("ctrl+[KeyZ]");
+            assert.strictEqual(accelerator, "Ctrl+Z");
+            assert.deepStrictEqual(diagnostics, [{ severity: "warning", message: "Electron matches the character \"z\", not the physical key.", source: "[KeyZ]" }]);
+            assert.strictEqual(toElectronAccelerator("shift+[BracketLeft]").accelerator, "Shift+[");
+        });
+
+        it("should report triggers it cannot convert", () => {
+            const cases: Array<[string, RegExp]> = [
+                ["g -> i", /cannot express key sequences/],
+                ["hyper+a", /Unknown modifier "hyper"/],
+                ["ctrl+Symbol", /The key "Symbol" has no Electron accelerator/],
+                ["ctrl+nope", /The key "nope" has no Electron accelerator/],
+            ];
+            for (const [keys, message] of cases) {
+                const { accelerator, diagnostics } = toElectronAccelerator(keys);
+                assert.strictEqual(accelerator, null);
+                assert.match(diagnostics[0].message, message);
+            }
+        });
+    });
+});
@@ -0,0 +1,381 @@
+import type { KeyCombinationConfig, KeySequenceConfig } from "./hotkeys.js";
+import { type StandardKey, type StandardCode, Keys, Codes } from "./keys.js";
+import { normalizeKey, normalizeCode, isCodeToken, keyToString } from "./triggers.js";
+import { parseWhenClause } from "./when.js";
+
+/**
+ * Something a converter could not carry over faithfully.
+ * An `"error"` means the input was not converted; a `"warning"` means it was, but something was dropped or approximated.
+ */
+export interface ConversionDiagnostic {
+    severity: "error" | "warning";
+    message: string;
+    /** The input the diagnostic is about, e.g. a key string or a property name. */
+    source: string;
+    /** For `fromVSCodeKeybindings`, the index of the entry in the file. */
+    index?: number;
+}
+
+/**
+ * An entry of VS Code's `keybindings.json`.
+ */
+export interface VSCodeKeybinding {
+    /** Space-separated chords of `+`-joined keys, e.g. `"ctrl+k ctrl+c"`. */
+    key: string;
+    /** The command to run. A leading `-` removes the bindings of the command instead. */
+    command: string;
+    when?: string;
+    args?: unknown;
+}
+
+/**
+ * A `-command` entry of VS Code's `keybindings.json`: the bindings of `command` to remove,
+ * limited to those bound to `keys` or with the same `when` clause if given.
+ */
+export interface VSCodeKeybindingRemoval {
+    command: string;
+    /** The keys in the library's string syntax, e.g. `"ctrl+k -> ctrl+c"`. */
+    keys?: string;
+    when?: string;
+}
+
+export interface VSCodeConversion {
+    /** The converted bindings, identified by their command (see {@link fromVSCodeKeybindings}). */
+    shortcuts: Array<KeyCombinationConfig | KeySequenceConfig>;
+    /** Every removal in the file, to apply to the default shortcuts of the application. */
+    removals: VSCodeKeybindingRemoval[];
+    diagnostics: ConversionDiagnostic[];
+}
+
+type ModifierName = "ctrl" | "alt" | "shift" | "meta" | "mod";
+
+const MODIFIER_ORDER: ModifierName[] = ["mod", "ctrl", "alt", "shift", "meta"];
+
+const VSCODE_MODIFIERS: Record<string, ModifierName> = { ctrl: "ctrl", shift: "shift", alt: "alt", cmd: "meta", meta: "meta", win: "meta" };
+
+const VSCODE_KEYS: Record<string, string> = {
+    pausebreak: "Pause",
+    numpad_multiply: "[NumpadMultiply]",
+    numpad_add: "[NumpadAdd]",
+    numpad_separator: "[NumpadComma]",
+    numpad_subtract: "[NumpadSubtract]",
+    numpad_decimal: "[NumpadDecimal]",
+    numpad_divide: "[NumpadDivide]",
+};
+
+/**
+ * The physical keys of the US layout characters. With Shift held, these keys produce other characters
+ * (`shift+=` produces `+`), so bindings that include Shift are converted to the physical key.
+ */
+const CHARACTER_CODES: Record<string, StandardCode> = {
+    "`": Codes.Backquote, "-": Codes.Minus, "=": Codes.Equal, "[": Codes.BracketLeft, "]": Codes.BracketRight,
+    "\\": Codes.Backslash, ";": Codes.Semicolon, "'": Codes.Quote, ",": Codes.Comma, ".": Codes.Period, "/": Codes.Slash,
+    ...Object.fromEntries([..."0123456789"].map(digit => [digit, `Digit${digit}` as StandardCode])),
+};
+
+/**
+ * Reads VS Code's `keybindings.json` and converts its entries into shortcut configs.
+ *
+ * - Chords (`"ctrl+k ctrl+c"`) become sequences (`"ctrl+k -> ctrl+c"`), other keys combinations.
+ * - `when` clauses are kept: they use the same syntax, with context keys set by the application.
+ * - `-command` entries remove the bindings of the command converted so far, and are listed in `removals`.
+ * - Each shortcut's `id` is its command. Further bindings of the same command get `#2`, `#3`... appended.
+ * - Command arguments (`args`) and unknown properties are dropped with a warning.
+ * - Entries with invalid keys or `when` clauses are skipped with an error.
+ * @param keybindings The file contents (JSON with comments and trailing commas, as VS Code writes it) or the parsed array.
+ * @returns The shortcuts, the removals and the diagnostics.
+ */
+export function fromVSCodeKeybindings(keybindings: string | VSCodeKeybinding[]): VSCodeConversion {
+    const result: VSCodeConversion = { shortcuts: [], removals: [], diagnostics: [] };
+    let entries: unknown = keybindings;
+    if (typeof keybindings === "string") {
+        try {
+            entries = JSON.parse(stripJsonComments(keybindings));
+        } catch (error) {
+            result.diagnostics.push({ severity: "error", message: `Invalid JSON (${(error as Error).message}).`, source: "keybindings.json" });
+            return result;
+        }
+    }
+    if (!Array.isArray(entries)) {
+        result.diagnostics.push({ severity: "error", message: "Expected an array of keybindings.", source: "keybindings.json" });
+        return result;
+    }
+
+    const bindingCounts = new Map<string, number>();
+    entries.forEach((entry: unknown, index) => {
+        const report = (severity: ConversionDiagnostic["severity"], message: string, source: string) => {
+            result.diagnostics.push({ severity, message, source, index });
+        };
+        if (entry == null || typeof entry !== "object" || Array.isArray(entry)) {
+            report("error", "Expected an object with \"key\" and \"command\".", JSON.stringify(entry));
+            return;
+        }
+        const { key, command, when, args, ...unknown } = entry as Record<string, unknown>;
+        if (typeof command !== "string" || command === "" || command === "-") {
+            report("error", "Missing \"command\".", JSON.stringify(entry));
+            return;
+        }
+        const isRemoval = command.startsWith("-");
+        if (!(typeof key === "string" && key.trim() !== "") && !(isRemoval && (key === undefined || key === ""))) {
+            report("error", "Missing \"key\".", command);
+            return;
+        }
+        if (when !== undefined) {
+            try {
+                if (typeof when !== "string") {
+                    throw new Error("Expected a string.");
+                }
+                parseWhenClause(when);
+            } catch (error) {
+                report("error", `Invalid "when" clause: ${(error as Error).message}`, String(when));
+                return;
+            }
+        }
+        const converted = key ? convertVSCodeKey(key as string) : { keys: undefined, isSequence: false };
+        if ("error" in converted) {
+            report("error", converted.error, key as string);
+            return;
+        }
+        for (const property of Object.keys(unknown)) {
+            report("warning", `Unknown property "${property}" ignored.`, property);
+        }
+
+        if (isRemoval) {
+            const removal: VSCodeKeybindingRemoval = { command: command.slice(1) };
+            if (converted.keys !== undefined) removal.keys = converted.keys;
+            if (when !== undefined) removal.when = when as string;
+            result.removals.push(removal);
+            result.shortcuts = result.shortcuts.filter(shortcut => !matchesRemoval(shortcut, removal));
+            return;
+        }
+        if (args !== undefined) {
+            report("warning", "Command arguments are not supported. The shortcut is converted without them.", "args");
+        }
+        const count = (bindingCounts.get(command) ?? 0) + 1;
+        bindingCounts.set(command, count);
+        const base = { id: count === 1 ? command : `${command}#${count}`, ...(when !== undefined ? { when: when as string } : {}) };
+        result.shortcuts.push(converted.isSequence ? { ...base, sequence: converted.keys! } : { ...base, keys: converted.keys! });
+    });
+    return result;
+}
+
+function matchesRemoval(shortcut: KeyCombinationConfig | KeySequenceConfig, removal: VSCodeKeybindingRemoval): boolean {
+    const command = shortcut.id.replace(/#\d+$/, "");
+    const keys = "sequence" in shortcut ? shortcut.sequence : shortcut.keys;
+    return command === removal.command &&
+        (removal.keys === undefined || keys === removal.keys) &&
+        (removal.when === undefined || shortcut.when === removal.when);
+}
+
+function convertVSCodeKey(key: string): { keys: string; isSequence: boolean } | { error: string } {
+    const chords: string[] = [];
+    for (const chord of key.trim().split(/\s+/)) {
+        const parts = chord.toLowerCase().split("+");
+        const keyName = parts.pop()!;
+        const modifiers = new Set<ModifierName>();
+        for (const part of parts) {
+            const modifier = VSCODE_MODIFIERS[part];
+            if (!modifier) {
+                return { error: `Unknown modifier "${part}".` };
+            }
+            modifiers.add(modifier);
+        }
+        const converted = convertVSCodeKeyName(keyName, modifiers.has("shift"));
+        if (!converted) {
+            return { error: keyName === "" ? `Missing key after "+" in "${chord}".` : `Unsupported key "${keyName}".` };
+        }
+        chords.push(joinTrigger(modifiers, converted));
+    }
+    return { keys: chords.join(" -> "), isSequence: chords.length > 1 };
+}
+
+function convertVSCodeKeyName(name: string, shift: boolean): string | null {
+    if (isCodeToken(name)) {
+        const code = normalizeCode(name);
+        return code ? `[${code}]` : null;
+    }
+    if (name in VSCODE_KEYS) {
+        return VSCODE_KEYS[name];
+    }
+    const numpadDigit = /^numpad(\d)$/.exec(name);
+    if (numpadDigit) {
+        return `[Numpad${numpadDigit[1]}]`;
+    }
+    if (name.length === 1 && name in CHARACTER_CODES) {
+        return shift ? `[${CHARACTER_CODES[name]}]` : name;
+    }
+    const standardKey = normalizeKey(name);
+    return standardKey ? keyToString(standardKey) : null;
+}
+
+// --- Electron accelerators ---
+
+/**
+ * The Electron names of the named keys, by `Keys` value.
+ * See https://www.electronjs.org/docs/latest/api/accelerator#available-key-codes
+ */
+const ELECTRON_KEY_NAMES: Partial<Record<StandardKey, string>> = {
+    [Keys.KeypadAdd]: "Plus",
+    [Keys.Space]: "Space",
+    [Keys.Tab]: "Tab",
+    [Keys.CapsLock]: "Capslock",
+    [Keys.NumLock]: "Numlock",
+    [Keys.ScrollLock]: "Scrolllock",
+    [Keys.Backspace]: "Backspace",
+    [Keys.Delete]: "Delete",
+    [Keys.Insert]: "Insert",
+    [Keys.Enter]: "Enter",
+    [Keys.ArrowUp]: "Up",
+    [Keys.ArrowDown]: "Down",
+    [Keys.ArrowLeft]: "Left",
+    [Keys.ArrowRight]: "Right",
+    [Keys.Home]: "Home",
+    [Keys.End]: "End",
+    [Keys.PageUp]: "PageUp",
+    [Keys.PageDown]: "PageDown",
+    [Keys.Escape]: "Escape",
+    [Keys.AudioVolumeUp]: "VolumeUp",
+    [Keys.AudioVolumeDown]: "VolumeDown",
+    [Keys.AudioVolumeMute]: "VolumeMute",
+    [Keys.MediaTrackNext]: "MediaNextTrack",
+    [Keys.MediaTrackPrevious]: "MediaPreviousTrack",
+    [Keys.MediaStop]: "MediaStop",
+    [Keys.MediaPlayPause]: "MediaPlayPause",
+    [Keys.PrintScreen]: "PrintScreen",
+};
+
+/**
+ * The Electron names of the numpad keys, by `Codes` value. Electron only knows them by their physical key.
+ */
+const ELECTRON_NUMPAD_NAMES: Partial<Record<StandardCode, string>> = {
+    ...Object.fromEntries([..."0123456789"].map(digit => [`Numpad${digit}`, `num${digit}`])),
+    [Codes.NumpadDecimal]: "numdec",
+    [Codes.NumpadAdd]: "numadd",
+    [Codes.NumpadSubtract]: "numsub",
+    [Codes.NumpadMultiply]: "nummult",
+    [Codes.NumpadDivide]: "numdiv",
+};
+
+const ELECTRON_MODIFIERS: Record<string, ModifierName> = {
+    command: "meta", cmd: "meta", super: "meta", meta: "meta",
+    control: "ctrl", ctrl: "ctrl",
+    commandorcontrol: "mod", cmdorctrl: "mod",
+    alt: "alt", option: "alt",
+    shift: "shift",
+};
+
+const ELECTRON_MODIFIER_NAMES: Record<ModifierName, string> = { mod: "CmdOrCtrl", ctrl: "Ctrl", alt: "Alt", shift: "Shift", meta: "Super" };
+
+const ELECTRON_KEYS: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(ELECTRON_KEY_NAMES).map(([key, name]) => [name.toLowerCase(), keyToString(key as StandardKey)])),
+    ...Object.fromEntries(Object.entries(ELECTRON_NUMPAD_NAMES).map(([code, name]) => [name, `[${code}]`])),
+    return: keyToString(Keys.Enter),
+    esc: keyToString(Keys.Escape),
+};
+
+/**
+ * Converts an Electron accelerator (e.g. `"CmdOrCtrl+Shift+K"`) into the library's string syntax (`"mod+shift+k"`).
+ * `CommandOrControl` becomes `mod`, and `Command`, `Super` and `Meta` become `meta`. Names are case-insensitive.
+ * `AltGr` and keys the library does not know (e.g. `F24`) are errors.
+ * @param accelerator The accelerator to convert.
+ * @returns The keys, or null if the accelerator cannot be converted, and the diagnostics.
+ */
+export function fromElectronAccelerator(accelerator: string): { keys: string | null; diagnostics: ConversionDiagnostic[] } {
+    const fail = (message: string) => ({ keys: null, diagnostics: [{ severity: "error" as const, message, source: accelerator }] });
+    const parts = accelerator.split("+").map(part => part.trim());
+    const keyName = parts.pop()!;
+    const modifiers = new Set<ModifierName>();
+    for (const part of parts) {
+        const name = part.toLowerCase();
+        if (name === "altgr") {
+            return fail("The AltGr modifier is not supported.");
+        }
+        const modifier = ELECTRON_MODIFIERS[name];
+        if (!modifier) {
+            return fail(`Unknown modifier "${part}".`);
+        }
+        modifiers.add(modifier);
+    }
+    if (keyName === "") {
+        return fail("Missing key. Use \"Plus\" for the + key.");
+    }
+    const standardKey = normalizeKey(keyName);
+    const key = ELECTRON_KEYS[keyName.toLowerCase()] ?? (standardKey && keyToString(standardKey));
+    if (!key) {
+        return fail(`Unsupported key "${keyName}".`);
+    }
+    return { keys: joinTrigger(modifiers, key), diagnostics: [] };
+}
+
+/**
+ * Converts a trigger in the library's string syntax (e.g. `"mod+shift+k"`) into an Electron accelerator (`"CmdOrCtrl+Shift+K"`).
+ * `mod` becomes `CmdOrCtrl` and `meta` becomes `Super` (Command on macOS, the Windows key elsewhere).
+ * Physical keys (`"[KeyZ]"`) have no accelerator: letters, digits and punctuation are converted to the character
+ * of the US layout with a warning, the numpad keys to Electron's `num` keys. Sequences are errors.
+ * @param keys The trigger to convert.
+ * @returns The accelerator, or null if the trigger cannot be converted, and the diagnostics.
+ */
+export function toElectronAccelerator(keys: string): { accelerator: string | null; diagnostics: ConversionDiagnostic[] } {
+    const diagnostics: ConversionDiagnostic[] = [];
+    const fail = (message: string) => ({ accelerator: null, diagnostics: [{ severity: "error" as const, message, source: keys }] });
+    if (keys.includes("->")) {
+        return fail("Electron accelerators cannot express key sequences.");
+    }
+    const parts = keys.length > 1 && keys.includes("+") ? keys.split("+").map(part => part.trim()) : [keys];
+    const keyToken = parts.pop()!;
+    const modifiers = new Set<ModifierName>();
+    for (const part of parts) {
+        const name = part.toLowerCase();
+        const modifier: ModifierName | undefined = name === "mod" ? "mod" : name === "win" ? "meta" : ELECTRON_MODIFIERS[name];
+        if (!modifier) {
+            return fail(`Unknown modifier "${part}".`);
+        }
+        modifiers.add(modifier);
+    }
+
+    let keyName: string | undefined;
+    if (isCodeToken(keyToken)) {
+        const code = normalizeCode(keyToken);
+        const character = code && codeToCharacter(code);
+        if (code && ELECTRON_NUMPAD_NAMES[code]) {
+            keyName = ELECTRON_NUMPAD_NAMES[code];
+        } else if (character) {
+            keyName = toElectronKeyName(character as StandardKey);
+            diagnostics.push({ severity: "warning", message: `Electron matches the character "${character}", not the physical key.`, source: keyToken });
+        } else if (code && code in Keys) {
+            keyName = toElectronKeyName(Keys[code as keyof typeof Keys]);
+        }
+    } else {
+        const key = normalizeKey(keyToken);
+        keyName = key == null ? undefined : toElectronKeyName(key);
+    }
+    if (!keyName) {
+        return fail(`The key "${keyToken}" has no Electron accelerator.`);
+    }
+    const accelerator = [...MODIFIER_ORDER.filter(modifier => modifiers.has(modifier)).map(modifier => ELECTRON_MODIFIER_NAMES[modifier]), keyName].join("+");
+    return { accelerator, diagnostics };
+}
+
+function toElectronKeyName(key: StandardKey): string | undefined {
+    return ELECTRON_KEY_NAMES[key] ?? (key.length === 1 || /^F\d+$/.test(key) ? key.toUpperCase() : undefined);
+}
+
+function codeToCharacter(code: StandardCode): string | undefined {
+    const match = /^(?:Key|Digit)(\w)$/.exec(code);
+    return match ? match[1].toLowerCase() : Object.keys(CHARACTER_CODES).find(character => CHARACTER_CODES[character] === code);
+}
+
+// --- Helpers ---
+
+function joinTrigger(modifiers: Set<ModifierName>, key: string): string {
+    return [...MODIFIER_ORDER.filter(modifier => modifiers.has(modifier)), key].join("+");
+}
+
+/**
+ * Removes the comments and trailing commas VS Code allows in its JSON files.
+ */
+function stripJsonComments(text: string): string {
+    return text
+        .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? "")
+        .replace(/("(?:[^"\\]|\\.)*")|,(\s*[\]}])/g, (match, string, closing) => string ?? closing);
+}
@@ -0,0 +1,58 @@
+/**
+ * The form elements shortcuts can be enabled on with `enableOnFormTags`.
+ */
+export type FormTag = "input" | "textarea" | "select";
+
+/**
+ * The kind of editable element a keyboard event originates from.
+ * @internal
+ */
+export type EditableKind = FormTag | "contenteditable";
+
+/**
+ * `<input>` types that do not accept text, so typing in them cannot conflict with shortcuts.
+ */
+const NON_TEXT_INPUT_TYPES = new Set([
+    "button", "checkbox", "color", "file", "hidden", "image", "radio", "range", "reset", "submit",
+]);
+
+/**
+ * Resolves the element an event really originates from.
+ * `event.target` is retargeted to the shadow host when the event leaves a shadow root,
+ * while the first entry of `composedPath()` is the original element.
+ * @internal
+ */
+export function getEventOrigin(event: Event): EventTarget | null {
+    const path = typeof event.composedPath === "function" ? event.composedPath() : [];
+    return path.length > 0 ? path[0] : event.target;
+}
+
+/**
+ * Determines whether an event target accepts text input, and of which kind.
+ * @returns The kind of editable element, or null if the target is not editable.
+ * @internal
+ */
+export function getEditableKind(target: EventTarget | null): EditableKind | null {
+    if (target == null || typeof (target as Element).tagName !== "string") {
+        return null;
+    }
+    const element = target as HTMLElement;
+    const tagName = element.tagName.toLowerCase();
+
+    if (tagName === "input") {
+        const type = (element.getAttribute("type") || "text").toLowerCase();
+        return NON_TEXT_INPUT_TYPES.has(type) ? null : "input";
+    }
+    if (tagName === "textarea" || tagName === "select") {
+        return tagName;
+    }
+    if (typeof element.isContentEditable === "boolean") {
+        return element.isContentEditable ? "contenteditable" : null;
+    }
+    // Fallback for environments that do not implement `isContentEditable`.
+    const editableHost = element.closest?.("[contenteditable]");
+    if (editableHost && editableHost.getAttribute("contenteditable") !== "false") {
+        return "contenteditable";
+    }
+    return null;
+}
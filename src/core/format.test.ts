@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { type ShortcutLabelStyle, formatShortcut } from "./format.js";
+import { type StandardKey, Keys, Codes } from "./keys.js";
+import type { Platform } from "./platform.js";
+
+describe("formatShortcut", () => {
+    it("should format triggers in any form", () => {
+        assert.strictEqual(formatShortcut({ key: Keys.S, ctrlKey: true, shiftKey: true }, { platform: "windows" }), "Ctrl+Shift+S");
+        assert.strictEqual(formatShortcut("ctrl+shift+s", { platform: "windows" }), "Ctrl+Shift+S");
+        assert.strictEqual(formatShortcut(Keys.Escape, { platform: "linux" }), "Esc");
+        assert.strictEqual(formatShortcut({ code: Codes.KeyZ, metaKey: true }, { platform: "mac" }), "⌘Z");
+    });
+
+    it("should resolve mod and name modifiers for the platform", () => {
+        const cases: Array<[Platform, ShortcutLabelStyle, string]> = [
+            ["mac", "symbols", "⌃⌥⇧⌘K"],
+            ["mac", "text", "Control+Option+Shift+Command+K"],
+            ["windows", "text", "Ctrl+Alt+Shift+Win+K"],
+            ["linux", "text", "Ctrl+Alt+Shift+Super+K"],
+            ["other", "text", "Ctrl+Alt+Shift+Meta+K"],
+            ["mac", "aria", "Control+Alt+Shift+Meta+K"],
+        ];
+        for (const [platform, style, label] of cases) {
+            // Modifiers are listed in a canonical order, whatever the order they are written in.
+            assert.strictEqual(formatShortcut("meta+shift+alt+ctrl+k", { platform, style }), label, `${platform} ${style}`);
+        }
+        assert.strictEqual(formatShortcut("mod+s", { platform: "mac" }), "⌘S");
+        assert.strictEqual(formatShortcut("mod+s", { platform: "windows" }), "Ctrl+S");
+    });
+
+    it("should use symbols for keys in the symbols style only", () => {
+        assert.strictEqual(formatShortcut("ctrl+up", { platform: "windows", style: "symbols" }), "Ctrl+↑");
+        assert.strictEqual(formatShortcut("ctrl+up", { platform: "windows", style: "text" }), "Ctrl+Up");
+        assert.strictEqual(formatShortcut("ctrl+up", { platform: "windows", style: "aria" }), "Control+ArrowUp");
+        assert.strictEqual(formatShortcut("meta+enter", { platform: "mac" }), "⌘↩");
+        assert.strictEqual(formatShortcut("meta+enter", { platform: "mac", style: "text" }), "Command+Return");
+        assert.strictEqual(formatShortcut("shift+space", { platform: "windows", style: "aria" }), "Shift+Space");
+        assert.strictEqual(formatShortcut("ctrl+plus", { platform: "windows" }), "Ctrl+Plus");
+    });
+
+    it("should name physical keys by their US label", () => {
+        assert.strictEqual(formatShortcut("ctrl+[BracketLeft]", { platform: "windows" }), "Ctrl+[");
+        assert.strictEqual(formatShortcut("[Digit1]", { platform: "windows" }), "1");
+        assert.strictEqual(formatShortcut("[Numpad5]", { platform: "windows" }), "Num 5");
+        assert.strictEqual(formatShortcut("[NumpadAdd]", { platform: "windows" }), "Num +");
+        assert.strictEqual(formatShortcut("[Space]", { platform: "windows" }), "Space");
+        assert.strictEqual(formatShortcut("[ArrowUp]", { platform: "mac" }), "↑");
+        assert.strictEqual(formatShortcut("[IntlBackslash]", { platform: "windows" }), "Intl Backslash");
+    });
+
+    it("should format sequences with a configurable separator", () => {
+        assert.strictEqual(formatShortcut("g -> i", { platform: "windows" }), "G I");
+        assert.strictEqual(formatShortcut(["ctrl+k", { key: Keys.S, ctrlKey: true }], { platform: "mac" }), "⌃K ⌃S");
+        assert.strictEqual(formatShortcut("ctrl+k -> ctrl+s", { platform: "windows", separator: ", " }), "Ctrl+K, Ctrl+S");
+        assert.strictEqual(formatShortcut("g -> i", { platform: "windows", style: "aria" }), "G, then I");
+    });
+
+    it("should use localized key names", () => {
+        const keyNames = { Control: "Strg", Shift: "Umschalt", " ": "Leertaste", KeyZ: "Y" };
+        assert.strictEqual(formatShortcut("ctrl+shift+space", { platform: "linux", keyNames }), "Strg+Umschalt+Leertaste");
+        assert.strictEqual(formatShortcut("ctrl+[KeyZ]", { platform: "linux", keyNames }), "Strg+Y");
+    });
+
+    it("should show a modifier key pressed on its own once", () => {
+        assert.strictEqual(formatShortcut("shift", { platform: "mac" }), "⇧");
+        assert.strictEqual(formatShortcut({ key: Keys.Shift, shiftKey: true }, { platform: "windows" }), "Shift");
+    });
+
+    it("should show unknown keys as written", () => {
+        assert.strictEqual(formatShortcut("ctrl+foo", { platform: "windows" }), "Ctrl+foo");
+    });
+
+    it("should give every key a distinct, readable name", () => {
+        const keys = Object.values(Keys) as StandardKey[];
+        for (const platform of ["mac", "windows"] as const) {
+            for (const style of ["symbols", "text", "aria"] as const) {
+                const labels = keys.map(key => formatShortcut({ key }, { platform, style }));
+                for (const [index, label] of labels.entries()) {
+                    assert.ok(label.trim() !== "" && label === label.trim(), `${platform} ${style}: ${JSON.stringify(keys[index])}`);
+                }
+                assert.strictEqual(new Set(labels).size, keys.length, `${platform} ${style}`);
+            }
+        }
+    });
+});
@@ -0,0 +1,247 @@
+import type { KeyCombinationTrigger } from "./hotkeys.js";
+import { type StandardKey, type StandardCode, Keys, Codes } from "./keys.js";
+import { type ParsedTrigger, normalizeKey, normalizeCode, isCodeToken } from "./triggers.js";
+import { type Platform, detectPlatform } from "./platform.js";
+
+/**
+ * How `formatShortcut` renders a shortcut:
+ * - `"symbols"`: compact, for menus and tooltips (`⌘⇧S` on macOS, `Ctrl+Shift+↑` elsewhere).
+ * - `"text"`: spelled out (`Command+Shift+S`, `Ctrl+Shift+Up`).
+ * - `"aria"`: the key names of the `aria-keyshortcuts` attribute (`Meta+Shift+S`, `Control+Shift+ArrowUp`),
+ *   the same on every platform.
+ */
+export type ShortcutLabelStyle = "symbols" | "text" | "aria";
+
+export interface FormatShortcutOptions {
+    /**
+     * The platform to render for. It resolves `mod` and picks the modifier names (`⌘` or `Ctrl`).
+     * @default detectPlatform()
+     */
+    platform?: Platform;
+    /**
+     * @default "symbols" on macOS, "text" elsewhere
+     */
+    style?: ShortcutLabelStyle;
+    /**
+     * Put between the steps of a sequence.
+     * @default " " (", then " for the "aria" style)
+     */
+    separator?: string;
+    /**
+     * Replaces the names of keys, e.g. to localize them. Keyed by `Keys` value, or by `Codes` value for physical keys;
+     * the modifiers are `Control`, `Alt`, `Shift` and `Meta`.
+     * @example { Control: "Strg", Shift: "Umschalt", " ": "Leertaste", Escape: "Esc" }
+     */
+    keyNames?: Partial<Record<StandardKey | StandardCode, string>>;
+}
+
+type ModifierKey = typeof Keys.Control | typeof Keys.Alt | typeof Keys.Shift | typeof Keys.Meta;
+type ModifierFlag = keyof Omit<ParsedTrigger, "key" | "code">;
+
+const MODIFIERS: Array<[ModifierFlag, ModifierKey]> = [
+    ["ctrlKey", Keys.Control],
+    ["altKey", Keys.Alt],
+    ["shiftKey", Keys.Shift],
+    ["metaKey", Keys.Meta],
+];
+
+const MAC_MODIFIER_SYMBOLS: Record<ModifierKey, string> = { Control: "⌃", Alt: "⌥", Shift: "⇧", Meta: "⌘" };
+const MAC_MODIFIER_NAMES: Record<ModifierKey, string> = { Control: "Control", Alt: "Option", Shift: "Shift", Meta: "Command" };
+const MODIFIER_NAMES: Record<ModifierKey, string> = { Control: "Ctrl", Alt: "Alt", Shift: "Shift", Meta: "Meta" };
+const META_NAMES: Partial<Record<Platform, string>> = { windows: "Win", linux: "Super" };
+
+/**
+ * Key names of the "text" style that differ from the `Keys` value split into words.
+ */
+const TEXT_NAMES: Partial<Record<StandardKey, string>> = {
+    [Keys.Space]: "Space",
+    [Keys.Escape]: "Esc",
+    [Keys.ArrowUp]: "Up",
+    [Keys.ArrowDown]: "Down",
+    [Keys.ArrowLeft]: "Left",
+    [Keys.ArrowRight]: "Right",
+    [Keys.KeypadAdd]: "Plus",
+    [Keys.AudioVolumeUp]: "Volume Up",
+    [Keys.AudioVolumeDown]: "Volume Down",
+    [Keys.AudioVolumeMute]: "Mute",
+    [Keys.MediaTrackNext]: "Next Track",
+    [Keys.MediaTrackPrevious]: "Previous Track",
+    [Keys.MediaPlayPause]: "Play/Pause",
+    [Keys.CrSel]: "CrSel",
+    [Keys.ExSel]: "ExSel",
+    [Keys.EraseEof]: "Erase EOF",
+    [Keys.Props]: "Properties",
+};
+
+/**
+ * macOS names of the "text" style, as printed on Apple keyboards.
+ */
+const MAC_TEXT_NAMES: Partial<Record<StandardKey, string>> = {
+    [Keys.Enter]: "Return",
+    [Keys.Backspace]: "Delete",
+    [Keys.Delete]: "Forward Delete",
+};
+
+/**
+ * Key symbols of the "symbols" style.
+ */
+const SYMBOLS: Partial<Record<StandardKey, string>> = {
+    [Keys.Enter]: "↩",
+    [Keys.Tab]: "⇥",
+    [Keys.Backspace]: "⌫",
+    [Keys.Delete]: "⌦",
+    [Keys.Escape]: "⎋",
+    [Keys.ArrowUp]: "↑",
+    [Keys.ArrowDown]: "↓",
+    [Keys.ArrowLeft]: "←",
+    [Keys.ArrowRight]: "→",
+    [Keys.PageUp]: "⇞",
+    [Keys.PageDown]: "⇟",
+    [Keys.Home]: "↖",
+    [Keys.End]: "↘",
+    [Keys.CapsLock]: "⇪",
+    [Keys.Eject]: "⏏",
+    [Keys.Power]: "⏻",
+};
+
+/**
+ * Key names of the "aria" style that differ from the `Keys` value (see the `aria-keyshortcuts` attribute).
+ */
+const ARIA_NAMES: Partial<Record<StandardKey, string>> = {
+    [Keys.Space]: "Space",
+    [Keys.KeypadAdd]: "Plus",
+};
+
+/**
+ * Formats a shortcut for display, e.g. `⌘⇧S` on macOS or `Ctrl+Shift+S` elsewhere.
+ * Modifiers always come in the same order: Control, Alt (Option), Shift, Meta (Command).
+ * @param shortcut A trigger in any form `addCombination` accepts (`{ key: Keys.S, ctrlKey: true }`, `Keys.Escape`,
+ * `"ctrl+s"`, `"[KeyZ]"`), or a sequence: an array of triggers or a string like `"ctrl+k -> ctrl+s"`.
+ * Physical keys are shown with their label on a US keyboard.
+ * @param options Optional. The platform, style, sequence separator and key names. See {@link FormatShortcutOptions}.
+ * @returns The label. Unknown keys are shown as written.
+ * @example
+ * ```typescript
+ * formatShortcut({ key: Keys.S, ctrlKey: true, shiftKey: true }, { platform: "windows" }); // "Ctrl+Shift+S"
+ * formatShortcut("mod+shift+s", { platform: "mac" }); // "⌘⇧S"
+ * formatShortcut("g -> i", { style: "text" }); // "G I"
+ * ```
+ */
+export function formatShortcut(shortcut: KeyCombinationTrigger | KeyCombinationTrigger[], options: FormatShortcutOptions = {}): string {
+    const platform = options.platform ?? detectPlatform();
+    const style = options.style ?? (platform === "mac" ? "symbols" : "text");
+    const separator = options.separator ?? (style === "aria" ? ", then " : " ");
+    const steps = Array.isArray(shortcut)
+        ? shortcut
+        : typeof shortcut === "string" && shortcut.includes("->") ? shortcut.split("->").map(step => step.trim()) : [shortcut];
+    return steps.map(step => formatTrigger(step, platform, style, options.keyNames ?? {})).join(separator);
+}
+
+function formatTrigger(trigger: KeyCombinationTrigger, platform: Platform, style: ShortcutLabelStyle, keyNames: Partial<Record<string, string>>): string {
+    const { key, isCode, modifiers } = toDisplayTrigger(trigger, platform);
+    const compact = style === "symbols" && platform === "mac";
+    const parts = MODIFIERS
+        // A modifier key pressed on its own (e.g. "shift") is only shown once.
+        .filter(([flag, modifierKey]) => modifiers[flag] && key !== modifierKey)
+        .map(([, modifierKey]) => keyNames[modifierKey] ?? formatModifier(modifierKey, platform, style));
+    parts.push(keyNames[key] ?? (isCode ? formatCode(key as StandardCode, platform, style) : formatKey(key, platform, style)));
+    return parts.join(compact ? "" : "+");
+}
+
+function formatModifier(modifier: ModifierKey, platform: Platform, style: ShortcutLabelStyle): string {
+    if (style === "aria") {
+        return modifier;
+    }
+    if (platform === "mac") {
+        return (style === "symbols" ? MAC_MODIFIER_SYMBOLS : MAC_MODIFIER_NAMES)[modifier];
+    }
+    return modifier === Keys.Meta ? META_NAMES[platform] ?? MODIFIER_NAMES.Meta : MODIFIER_NAMES[modifier];
+}
+
+/**
+ * Names a key (a `Keys` value) in the given style.
+ */
+function formatKey(key: string, platform: Platform, style: ShortcutLabelStyle): string {
+    if (MODIFIERS.some(([, modifierKey]) => modifierKey === key)) {
+        return formatModifier(key as ModifierKey, platform, style);
+    }
+    const standardKey = key as StandardKey;
+    if (style === "aria") {
+        return ARIA_NAMES[standardKey] ?? (key.length === 1 ? key.toUpperCase() : key);
+    }
+    if (style === "symbols" && SYMBOLS[standardKey]) {
+        return SYMBOLS[standardKey];
+    }
+    return (platform === "mac" ? MAC_TEXT_NAMES[standardKey] : undefined) ?? TEXT_NAMES[standardKey] ??
+        (key.length === 1 ? key.toUpperCase() : splitWords(key));
+}
+
+/**
+ * Names a physical key by its label on a US keyboard (`KeyZ` is "Z", `BracketLeft` is "["),
+ * or by the key it produces (`ArrowUp`, `F1`).
+ */
+function formatCode(code: StandardCode, platform: Platform, style: ShortcutLabelStyle): string {
+    const character = /^(?:Key|Digit)(\w)$/.exec(code)?.[1] ?? CODE_CHARACTERS[code];
+    if (character) {
+        return character;
+    }
+    const numpad = /^Numpad(\w+)$/.exec(code);
+    if (numpad) {
+        const name = NUMPAD_NAMES[numpad[1]] ?? numpad[1];
+        return style === "aria" ? code : `Num ${name}`;
+    }
+    const modifier = /^(Control|Alt|Shift|Meta)(?:Left|Right)$/.exec(code)?.[1];
+    if (modifier) {
+        return formatModifier(modifier as ModifierKey, platform, style);
+    }
+    if (code === Codes.Space) {
+        return formatKey(Keys.Space, platform, style);
+    }
+    // The other codes are named like the keys they produce (`ArrowUp`, `F1`, `Enter`).
+    return formatKey(code, platform, style);
+}
+
+const CODE_CHARACTERS: Partial<Record<StandardCode, string>> = {
+    Backquote: "`", Backslash: "\\", BracketLeft: "[", BracketRight: "]", Comma: ",", Equal: "=",
+    Minus: "-", Period: ".", Quote: "'", Semicolon: ";", Slash: "/",
+};
+
+const NUMPAD_NAMES: Record<string, string> = {
+    Add: "+", Subtract: "-", Multiply: "*", Divide: "/", Decimal: ".", Comma: ",", Equal: "=", Enter: "Enter",
+};
+
+function splitWords(name: string): string {
+    return name.replace(/([a-z])([A-Z0-9])/g, "$1 $2");
+}
+
+/**
+ * Turns any trigger form into a key (or code) to name and its modifiers.
+ * Unlike the parser of `Hotkeys`, it never fails: unknown keys are kept as written.
+ */
+function toDisplayTrigger(trigger: KeyCombinationTrigger, platform: Platform): { key: string; isCode: boolean; modifiers: Partial<Record<ModifierFlag, boolean>> } {
+    if (typeof trigger !== "string") {
+        return "code" in trigger && trigger.code != null
+            ? { key: trigger.code, isCode: true, modifiers: trigger }
+            : { key: (trigger as { key: string }).key, isCode: false, modifiers: trigger };
+    }
+    const parts = trigger.length > 1 && trigger.includes("+") ? trigger.split("+").map(part => part.trim()) : [trigger];
+    const token = parts.pop()!;
+    const modifiers: Partial<Record<ModifierFlag, boolean>> = {};
+    for (const part of parts) {
+        const name = part.toLowerCase();
+        const flag = name === "mod" ? (platform === "mac" ? "metaKey" : "ctrlKey") : PARSE_MODIFIERS[name];
+        if (flag) {
+            modifiers[flag] = true;
+        }
+    }
+    const isCode = isCodeToken(token);
+    const key = isCode ? normalizeCode(token) : normalizeKey(token);
+    return { key: key ?? token, isCode: isCode && key != null, modifiers };
+}
+
+const PARSE_MODIFIERS: Record<string, ModifierFlag> = {
+    ctrl: "ctrlKey", control: "ctrlKey",
+    alt: "altKey", option: "altKey",
+    shift: "shiftKey",
+    meta: "metaKey", cmd: "metaKey", command: "metaKey", win: "metaKey",
+};
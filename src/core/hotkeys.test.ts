@@ -1,9 +1,15 @@
 import { describe, it, before, beforeEach, afterEach, mock, Mock } from "node:test";
 import assert from "node:assert";
-import { Hotkeys, type KeyCombinationConfig, type KeySequenceConfig, ShortcutTypes } from "./hotkeys.js";
-import { Keys, type StandardKey } from "./keys.js";
+import { Hotkeys, type KeyCombinationConfig, type KeySequenceConfig, type SequenceProgress, type RecordedShortcut, type ShortcutTriggerRecord, ShortcutTypes } from "./hotkeys.js";
+import { Keys, Codes, type StandardKey } from "./keys.js";
 import { fromEvent, BehaviorSubject, Observable, EMPTY, firstValueFrom } from "rxjs";
 import { createMockFn, dispatchKeyEvent } from "./testutils.js";
+import { MemoryKeymapStorage, type KeymapOverrides } from "./keymap.js";
+import { SequenceTrie } from "./sequenceTrie.js";
+import { fromVSCodeKeybindings, fromElectronAccelerator } from "./converters.js";
+import defaultPreset from "./presets/default.json" with { type: "json" };
+import vimPreset from "./presets/vim.json" with { type: "json" };
+import emacsPreset from "./presets/emacs.json" with { type: "json" };
 import { JSDOM } from "jsdom";
 
 // --- JSDOM and RxJS setup for Node.js tests ---
@@ -765,6 +771,123 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
         });
     });
 
+    describe("Physical Key Matching (event.code)", () => {
+        it("should match a code trigger regardless of the produced character (AZERTY)", () => {
+            keyManager.addCombination({ id: "undoPhysical", keys: { code: Codes.KeyZ, ctrlKey: true } }).subscribe(mockCallback);
+
+            // On AZERTY, the physical "KeyZ" position produces "w".
+            dispatchKeyEvent(document, "w", "keydown", { code: "KeyZ", ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1, "Physical KeyZ should trigger on AZERTY");
+
+            // The character "z" lives on the physical "KeyW" position on AZERTY.
+            dispatchKeyEvent(document, "z", "keydown", { code: "KeyW", ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1, `Character "z" on another physical key should not trigger`);
+        });
+
+        it(`should parse the bracketed string syntax "ctrl+[KeyZ]" for non-latin layouts`, () => {
+            keyManager.addCombination({ id: "undoString", keys: "ctrl+[KeyZ]" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, "я", "keydown", { code: "KeyZ", ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1, "Cyrillic layout should trigger the physical key shortcut");
+            dispatchKeyEvent(document, "я", "keydown", { code: "KeyZ" });
+            assert.strictEqual(mockCallback.calledCount, 1, "Modifiers should still be respected for code triggers");
+        });
+
+        it("should support bracketed codes as shorthand and in arrays", () => {
+            keyManager.addCombination({ id: "codeShorthand", keys: ["[BracketLeft]", "[Numpad1]"] }).subscribe(mockCallback);
+            dispatchKeyEvent(document, "ü", "keydown", { code: "BracketLeft" });
+            dispatchKeyEvent(document, "1", "keydown", { code: "Numpad1" });
+            dispatchKeyEvent(document, "1", "keydown", { code: "Digit1" });
+            assert.strictEqual(mockCallback.calledCount, 2);
+        });
+
+        it("should warn and return empty on an unknown code", () => {
+            keyManager.addCombination({ id: "badCode", keys: "ctrl+[NotACode]" }).subscribe(mockCallback);
+            assert.ok(consoleWarnMock.mock.calls.some(c => c.arguments[0].includes(`Could not parse code: "[notacode]"`)));
+            assert.ok(consoleErrorMock.mock.calls.some(c => c.arguments[0].includes(`combination shortcut "badCode" is empty or invalid`)));
+        });
+
+        it("should suppress a global key trigger with a specific-context code trigger for the same event", () => {
+            const globalCallback = createMockFn();
+            keyManager.addCombination({ id: "globalUndo", keys: "ctrl+z" }).subscribe(globalCallback);
+            keyManager.addCombination({ id: "editorUndo", keys: "ctrl+[KeyZ]", context: "editor" }).subscribe(mockCallback);
+
+            keyManager.setContext("editor");
+            dispatchKeyEvent(document, "z", "keydown", { code: "KeyZ", ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1, "Specific code shortcut should fire");
+            assert.strictEqual(globalCallback.calledCount, 0, "Global key shortcut should be suppressed");
+
+            // On AZERTY the global "ctrl+z" is on a different physical key and does not conflict.
+            dispatchKeyEvent(document, "z", "keydown", { code: "KeyW", ctrlKey: true });
+            assert.strictEqual(globalCallback.calledCount, 1, "Global key shortcut should fire for a non-conflicting event");
+        });
+
+        it("should log code triggers in debug mode", () => {
+            const consoleLogMock = mock.method(console, "log");
+            keyManager.setDebugMode(true);
+            keyManager.addCombination({ id: "codeLog", keys: { code: Codes.Slash, shiftKey: true } });
+            assert.ok(consoleLogMock.mock.calls.some(call => call.arguments[0].includes(`Triggers: [ { code: "Slash", shift: true } ]`)));
+            consoleLogMock.mock.restore();
+        });
+    });
+
+    describe("Platform-aware Shortcuts", () => {
+        let macManager: Hotkeys;
+        let windowsManager: Hotkeys;
+
+        beforeEach(() => {
+            macManager = new Hotkeys(null, false, { platform: "mac" });
+            windowsManager = new Hotkeys(null, false, { platform: () => "windows" });
+        });
+
+        afterEach(() => {
+            macManager.destroy();
+            windowsManager.destroy();
+        });
+
+        it("should accept an injected platform value or detector function", () => {
+            assert.strictEqual(macManager.getPlatform(), "mac");
+            assert.strictEqual(windowsManager.getPlatform(), "windows");
+        });
+
+        it(`should resolve "mod" to Meta on macOS`, () => {
+            macManager.addCombination({ id: "save", keys: "mod+s" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0, "Ctrl+S should not trigger on macOS");
+            dispatchKeyEvent(document, "s", "keydown", { metaKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1, "Cmd+S should trigger on macOS");
+        });
+
+        it(`should resolve "mod" to Control on other platforms`, () => {
+            windowsManager.addCombination({ id: "save", keys: "mod+shift+s" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, "s", "keydown", { metaKey: true, shiftKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0, "Meta+Shift+S should not trigger on Windows");
+            dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true, shiftKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1, "Ctrl+Shift+S should trigger on Windows");
+        });
+
+        it("should pick per-platform keys and fall back to default", () => {
+            const macCallback = createMockFn();
+            const keys = { mac: "meta+backspace", default: ["delete", "ctrl+d"] };
+            macManager.addCombination({ id: "deleteLine", keys }).subscribe(macCallback);
+            windowsManager.addCombination({ id: "deleteLine", keys }).subscribe(mockCallback);
+
+            dispatchKeyEvent(document, "Backspace", "keydown", { metaKey: true });
+            assert.strictEqual(macCallback.calledCount, 1, "macOS entry should be used on macOS");
+            assert.strictEqual(mockCallback.calledCount, 0, "macOS entry should not be used on Windows");
+
+            dispatchKeyEvent(document, "Delete");
+            dispatchKeyEvent(document, "d", "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 2, "Default entry should be used on Windows");
+            assert.strictEqual(macCallback.calledCount, 1, "Default entry should not be used when a macOS entry exists");
+        });
+
+        it("should not add a shortcut when no entry exists for the current platform", () => {
+            windowsManager.addCombination({ id: "macOnly", keys: { mac: "meta+k" } }).subscribe(mockCallback);
+            assert.strictEqual(windowsManager.hasShortcut("macOnly"), false);
+            assert.ok(consoleErrorMock.mock.calls.some(c => c.arguments[0].includes(`combination shortcut "macOnly" is empty or invalid`)));
+        });
+    });
+
     describe("New Feature: Element-Scoped Listeners", () => {
         let el1: HTMLElement, el2: HTMLElement;
 
@@ -816,6 +939,162 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
         });
     });
 
+    describe("Editable Elements", () => {
+        let input: HTMLInputElement;
+        let textarea: HTMLTextAreaElement;
+        let editable: HTMLElement;
+
+        beforeEach(() => {
+            input = document.createElement("input");
+            textarea = document.createElement("textarea");
+            editable = document.createElement("div");
+            editable.setAttribute("contenteditable", "true");
+            editable.appendChild(document.createElement("span"));
+            testArea.append(input, textarea, editable);
+        });
+
+        afterEach(() => {
+            testArea.innerHTML = "";
+        });
+
+        it("should ignore combinations typed in form elements by default", () => {
+            keyManager.addCombination({ id: "k", keys: Keys.K }).subscribe(mockCallback);
+            dispatchKeyEvent(input, Keys.K);
+            dispatchKeyEvent(textarea, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            dispatchKeyEvent(testArea, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should ignore keys typed inside a contenteditable region by default", () => {
+            keyManager.addCombination({ id: "k", keys: Keys.K }).subscribe(mockCallback);
+            dispatchKeyEvent(editable.firstChild as HTMLElement, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should not treat non-text inputs as editable", () => {
+            const checkbox = document.createElement("input");
+            checkbox.type = "checkbox";
+            testArea.appendChild(checkbox);
+            keyManager.addCombination({ id: "k", keys: Keys.K }).subscribe(mockCallback);
+            dispatchKeyEvent(checkbox, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should fire Escape in form elements by default", () => {
+            keyManager.addCombination({ id: "close", keys: Keys.Escape }).subscribe(mockCallback);
+            dispatchKeyEvent(input, Keys.Escape);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should respect per-shortcut enableOnFormTags and enableOnContentEditable", () => {
+            const selectOnly = createMockFn();
+            const editableCallback = createMockFn();
+            keyManager.addCombination({ id: "all", keys: "ctrl+s", enableOnFormTags: true }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "select", keys: "ctrl+k", enableOnFormTags: ["select"] }).subscribe(selectOnly);
+            keyManager.addCombination({ id: "rich", keys: "ctrl+b", enableOnContentEditable: true }).subscribe(editableCallback);
+            dispatchKeyEvent(input, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(input, Keys.K, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(editable, Keys.B, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(selectOnly.calledCount, 0);
+            assert.strictEqual(editableCallback.calledCount, 1);
+        });
+
+        it("should use the manager-wide defaults and exceptions", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { enableOnFormTags: ["textarea"], editableExceptions: [Keys.F1] });
+            const escapeCallback = createMockFn();
+            keyManager.addCombination({ id: "k", keys: Keys.K }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "esc", keys: Keys.Escape }).subscribe(escapeCallback);
+            dispatchKeyEvent(textarea, Keys.K);
+            dispatchKeyEvent(input, Keys.K);
+            dispatchKeyEvent(input, Keys.Escape);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(escapeCallback.calledCount, 0);
+        });
+
+        it("should fire when the editable element is the shortcut's own target", () => {
+            keyManager.addCombination({ id: "submit", keys: Keys.Enter, target: input }).subscribe(mockCallback);
+            dispatchKeyEvent(input, Keys.Enter);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should ignore sequences typed in form elements", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(input, Keys.G);
+            dispatchKeyEvent(input, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", enableOnFormTags: true }).subscribe(mockCallback);
+            dispatchKeyEvent(input, Keys.G);
+            dispatchKeyEvent(input, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should resolve the origin inside shadow roots", () => {
+            const host = document.createElement("div");
+            testArea.appendChild(host);
+            const shadowInput = document.createElement("input");
+            host.attachShadow({ mode: "open" }).appendChild(shadowInput);
+            keyManager.addCombination({ id: "k", keys: Keys.K }).subscribe(mockCallback);
+            const event = new window.KeyboardEvent("keydown", { key: Keys.K, bubbles: true, composed: true });
+            shadowInput.dispatchEvent(event);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+    });
+
+    describe("IME Composition", () => {
+        it("should ignore events flagged with isComposing", () => {
+            keyManager.addCombination({ id: "k", keys: Keys.K }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.K, "keydown", { isComposing: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should ignore events with keyCode 229", () => {
+            keyManager.addCombination({ id: "enter", keys: Keys.Enter }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.Enter, "keydown", { keyCode: 229 });
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should ignore events between compositionstart and compositionend on the target", () => {
+            keyManager.addCombination({ id: "k", keys: Keys.K, target: testArea }).subscribe(mockCallback);
+            testArea.dispatchEvent(new window.CompositionEvent("compositionstart", { bubbles: true }));
+            dispatchKeyEvent(testArea, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            testArea.dispatchEvent(new window.CompositionEvent("compositionend", { bubbles: true }));
+            dispatchKeyEvent(testArea, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should stop tracking composition once the last shortcut on the target is removed", () => {
+            const removeListenerMock = mock.method(testArea, "removeEventListener");
+            keyManager.addCombination({ id: "k", keys: Keys.K, target: testArea }).subscribe(mockCallback);
+            testArea.dispatchEvent(new window.CompositionEvent("compositionstart", { bubbles: true }));
+            keyManager.remove("k");
+            const removed = removeListenerMock.mock.calls.map(call => call.arguments[0]);
+            assert.ok(removed.includes("compositionstart") && removed.includes("compositionend"));
+            removeListenerMock.mock.restore();
+
+            // The composition in progress is forgotten with the listeners.
+            keyManager.addCombination({ id: "k", keys: Keys.K, target: testArea }).subscribe(mockCallback);
+            dispatchKeyEvent(testArea, Keys.K);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should ignore sequences typed during composition", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G, "keydown", { isComposing: true });
+            dispatchKeyEvent(document, Keys.I, "keydown", { isComposing: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should fire during composition for shortcuts that opt in", () => {
+            keyManager.addCombination({ id: "k", keys: Keys.K, enableDuringComposition: true }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.K, "keydown", { isComposing: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+    });
+
     describe("New Feature: keyup Event Support", () => {
         it("should trigger combination on keyup when specified", () => {
             keyManager.addCombination({ id: "keyupCombo", keys: "a", event: "keyup" }).subscribe(mockCallback);
@@ -943,150 +1222,631 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
         });
     });
 
-    describe("Global Shortcut Context Behavior (`strict` flag)", () => {
-        let strictGlobalCallback: ReturnType<typeof createMockFn>;
-        let defaultGlobalCallback: ReturnType<typeof createMockFn>;
-        let specificContextCallback: ReturnType<typeof createMockFn>;
+    describe("Hierarchical Contexts", () => {
+        let parentCallback: ReturnType<typeof createMockFn>;
 
         beforeEach(() => {
-            strictGlobalCallback = createMockFn();
-            defaultGlobalCallback = createMockFn();
-            specificContextCallback = createMockFn();
-
-            // 1. A specific shortcut for the "editor" context
-            keyManager.addCombination({
-                id: "editorSave",
-                keys: { key: Keys.S, ctrlKey: true },
-                context: "editor"
-            }).subscribe(specificContextCallback);
+            parentCallback = createMockFn();
+        });
 
-            // 2. A "strictly global" shortcut, which only runs when context is null
-            keyManager.addCombination({
-                id: "strictGlobalOpen",
-                keys: { key: Keys.O, ctrlKey: true },
-                strict: true,
-            }).subscribe(strictGlobalCallback);
+        it("should keep shortcuts of dotted ancestors active in descendants", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s", context: "editor" }).subscribe(parentCallback);
+            keyManager.addSequence({ id: "goLine", sequence: "g -> g", context: "editor.vim" }).subscribe(mockCallback);
+            keyManager.setContext("editor.vim.insert");
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(parentCallback.calledCount, 1);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
 
-            // 3. A default global shortcut, which runs in any context unless overridden
-            keyManager.addCombination({
-                id: "defaultGlobalSave",
-                keys: { key: Keys.S, ctrlKey: true },
-            }).subscribe(defaultGlobalCallback);
+        it("should not activate descendants or dotted siblings in a parent context", () => {
+            keyManager.addCombination({ id: "vim", keys: Keys.I, context: "editor.vim" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "editorial", keys: Keys.I, context: "editorial" }).subscribe(parentCallback);
+            keyManager.setContext("editor");
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            assert.strictEqual(parentCallback.calledCount, 0);
+        });
+
+        it("should fire only the most specific binding", () => {
+            const globalCallback = createMockFn();
+            keyManager.addCombination({ id: "global", keys: Keys.Escape }).subscribe(globalCallback);
+            keyManager.addCombination({ id: "editor", keys: Keys.Escape, context: "editor" }).subscribe(parentCallback);
+            keyManager.addCombination({ id: "insert", keys: Keys.Escape, context: "editor.vim.insert" }).subscribe(mockCallback);
+            keyManager.setContext("editor.vim");
+            dispatchKeyEvent(document, Keys.Escape);
+            assert.strictEqual(parentCallback.calledCount, 1);
+            assert.strictEqual(globalCallback.calledCount, 0);
+            keyManager.setContext("editor.vim.insert");
+            dispatchKeyEvent(document, Keys.Escape);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(parentCallback.calledCount, 1);
+            assert.strictEqual(globalCallback.calledCount, 0);
         });
 
-        it("should trigger both strict and default global shortcuts when context is null", () => {
-            keyManager.setContext(null);
+        it("should let priority win over specificity", () => {
+            keyManager.addCombination({ id: "editor", keys: Keys.Escape, context: "editor", priority: 1 }).subscribe(parentCallback);
+            keyManager.addCombination({ id: "insert", keys: Keys.Escape, context: "editor.insert" }).subscribe(mockCallback);
+            keyManager.setContext("editor.insert");
+            dispatchKeyEvent(document, Keys.Escape);
+            assert.strictEqual(parentCallback.calledCount, 1);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
 
-            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
-            assert.strictEqual(strictGlobalCallback.calledCount, 1, "Strictly global (Ctrl+O) should fire");
+        it("should use parents declared with defineContext", () => {
+            keyManager.defineContext("modal", "app");
+            keyManager.addCombination({ id: "help", keys: Keys.F1, context: "app" }).subscribe(parentCallback);
+            keyManager.enterContext("modal");
+            dispatchKeyEvent(document, Keys.F1);
+            assert.strictEqual(parentCallback.calledCount, 1);
+            assert.deepStrictEqual(keyManager.getActiveContextPath(), ["modal", "app"]);
 
-            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
-            assert.strictEqual(defaultGlobalCallback.calledCount, 1, "Default global (Ctrl+S) should fire");
-            assert.strictEqual(specificContextCallback.calledCount, 0, "Specific context callback should not fire");
+            keyManager.defineContext("modal", null);
+            dispatchKeyEvent(document, Keys.F1);
+            assert.strictEqual(parentCallback.calledCount, 1);
         });
 
-        it("should suppress strict global but allow default global (which is then suppressed by priority)", () => {
-            keyManager.setContext("editor");
+        it("should prefer a declared parent over the dotted prefix", () => {
+            keyManager.defineContext("editor.preview", "viewer");
+            keyManager.setContext("editor.preview");
+            assert.deepStrictEqual(keyManager.getActiveContextPath(), ["editor.preview", "viewer"]);
+            assert.strictEqual(keyManager.isContextActive("viewer"), true);
+            assert.strictEqual(keyManager.isContextActive("editor"), false);
+        });
 
-            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
-            assert.strictEqual(strictGlobalCallback.calledCount, 0, `Strictly global (Ctrl+O) should NOT fire in "editor" context`);
+        it("should refuse parents that would create a cycle", () => {
+            keyManager.defineContext("b", "a");
+            keyManager.defineContext("a", "b");
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 1);
+            keyManager.setContext("b");
+            assert.deepStrictEqual(keyManager.getActiveContextPath(), ["b", "a"]);
+        });
 
-            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
-            assert.strictEqual(defaultGlobalCallback.calledCount, 0, "Default global (Ctrl+S) should be suppressed by the specific one");
-            assert.strictEqual(specificContextCallback.calledCount, 1, `Specific "editor" callback (Ctrl+S) should fire and take priority`);
+        it("should report the active context path", () => {
+            assert.deepStrictEqual(keyManager.getActiveContextPath(), []);
+            keyManager.enterContext("editor.vim.insert");
+            assert.strictEqual(keyManager.getActiveContext(), "editor.vim.insert");
+            assert.deepStrictEqual(keyManager.getActiveContextPath(), ["editor.vim.insert", "editor.vim", "editor"]);
+            assert.strictEqual(keyManager.isContextActive("editor"), true);
+            assert.strictEqual(keyManager.isContextActive("editor.vim.normal"), false);
         });
 
-        it("should suppress strict global but trigger default global in a non-conflicting context", () => {
-            keyManager.setContext("someOtherContext");
+        it("should only activate the top of the stack in single context mode", () => {
+            keyManager.enterContext("sidebar");
+            keyManager.enterContext("editor");
+            assert.deepStrictEqual(keyManager.getActiveContexts(), ["editor"]);
+            assert.strictEqual(keyManager.isContextActive("sidebar"), false);
+            assert.strictEqual(keyManager.leaveContext("sidebar"), "sidebar");
+            assert.strictEqual(keyManager.getActiveContext(), "editor");
+        });
 
-            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
-            assert.strictEqual(strictGlobalCallback.calledCount, 0, `Strictly global (Ctrl+O) should NOT fire in "someOtherContext"`);
+        it("should not report a binding overriding an ancestor context as a conflict", () => {
+            keyManager.addCombination({ id: "editor", keys: Keys.Escape, context: "editor" });
+            keyManager.addCombination({ id: "insert", keys: Keys.Escape, context: "editor.insert" });
+            assert.deepStrictEqual(keyManager.getConflicts(), []);
+        });
 
-            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
-            assert.strictEqual(defaultGlobalCallback.calledCount, 1, "Default global (Ctrl+S) should fire since no override exists for this context");
-            assert.strictEqual(specificContextCallback.calledCount, 0, `Specific "editor" callback should not fire`);
+        it("should keep strict global shortcuts inactive in any context", () => {
+            keyManager.addCombination({ id: "strict", keys: Keys.F2, strict: true }).subscribe(mockCallback);
+            keyManager.setContext("editor.vim");
+            dispatchKeyEvent(document, Keys.F2);
+            assert.strictEqual(mockCallback.calledCount, 0);
         });
     });
 
-    describe("Sequence Context Behavior (`strict` flag)", () => {
-        // This test suite remains valid as `addSequence` already had the correct structure.
-        let strictSeqCallback: ReturnType<typeof createMockFn>;
-        let defaultSeqCallback: ReturnType<typeof createMockFn>;
-        let specificSeqCallback: ReturnType<typeof createMockFn>;
-        const testSequence: StandardKey[] = [Keys.M, Keys.A, Keys.P];
+    describe("Multiple Active Contexts", () => {
+        let editorCallback: ReturnType<typeof createMockFn>;
+        let terminalCallback: ReturnType<typeof createMockFn>;
 
         beforeEach(() => {
-            strictSeqCallback = createMockFn();
-            defaultSeqCallback = createMockFn();
-            specificSeqCallback = createMockFn();
-
-            keyManager.addSequence({ id: "strictSeq", sequence: [Keys.G, Keys.O], strict: true }).subscribe(strictSeqCallback);
-            keyManager.addSequence({ id: "defaultSeq", sequence: testSequence }).subscribe(defaultSeqCallback);
-            keyManager.addSequence({ id: "specificSeq", sequence: testSequence, context: "editor" }).subscribe(specificSeqCallback);
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { contextMode: "multiple" });
+            editorCallback = createMockFn();
+            terminalCallback = createMockFn();
         });
 
-        it("should trigger both strict and default global sequences when context is null", () => {
-            keyManager.setContext(null);
+        it("should keep the shortcuts of every entered context active", () => {
+            keyManager.addCombination({ id: "sidebar", keys: "ctrl+b", context: "sidebar" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "editor", keys: "ctrl+s", context: "editor" }).subscribe(editorCallback);
+            keyManager.addSequence({ id: "terminal", sequence: "ctrl+k -> ctrl+c", context: "terminal" }).subscribe(terminalCallback);
+            keyManager.enterContext("sidebar");
+            keyManager.enterContext("editor");
+            keyManager.enterContext("terminal");
+            dispatchKeyEvent(document, Keys.B, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.K, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.C, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(editorCallback.calledCount, 1);
+            assert.strictEqual(terminalCallback.calledCount, 1);
+        });
 
-            [Keys.G, Keys.O].forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(strictSeqCallback.calledCount, 1, "Strict sequence should fire");
+        it("should leave a context from anywhere in the stack", () => {
+            keyManager.addCombination({ id: "sidebar", keys: "ctrl+b", context: "sidebar" }).subscribe(mockCallback);
+            keyManager.enterContext("sidebar");
+            keyManager.enterContext("editor");
+            assert.strictEqual(keyManager.leaveContext("sidebar"), "sidebar");
+            assert.deepStrictEqual(keyManager.getActiveContexts(), ["editor"]);
+            assert.strictEqual(keyManager.leaveContext("sidebar"), undefined);
+            dispatchKeyEvent(document, Keys.B, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
 
-            testSequence.forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(defaultSeqCallback.calledCount, 1, "Default sequence should fire");
-            assert.strictEqual(specificSeqCallback.calledCount, 0, "Specific sequence should not fire");
+        it("should match a shortcut bound to an array of contexts if any of them is active", () => {
+            keyManager.addCombination({ id: "find", keys: "ctrl+f", context: ["editor", "terminal"] }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.F, "keydown", { ctrlKey: true });
+            keyManager.enterContext("terminal");
+            dispatchKeyEvent(document, Keys.F, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
         });
 
-        it("should suppress strict sequence and prioritize specific sequence in a matching context", () => {
-            keyManager.setContext("editor");
+        it("should suppress a global shortcut when any active context binds the same keys", () => {
+            keyManager.addCombination({ id: "global", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "editor", keys: "ctrl+s", context: "editor" }).subscribe(editorCallback);
+            keyManager.enterContext("sidebar");
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            keyManager.enterContext("editor");
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(editorCallback.calledCount, 1);
+        });
 
-            [Keys.G, Keys.O].forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(strictSeqCallback.calledCount, 0, `Strict sequence should NOT fire in "editor" context`);
+        it("should only fire strict global shortcuts when no context is active", () => {
+            keyManager.addCombination({ id: "strict", keys: Keys.F2, strict: true }).subscribe(mockCallback);
+            keyManager.enterContext("sidebar");
+            dispatchKeyEvent(document, Keys.F2);
+            keyManager.leaveContext("sidebar");
+            dispatchKeyEvent(document, Keys.F2);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
 
-            testSequence.forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(defaultSeqCallback.calledCount, 0, "Default global sequence should be suppressed");
-            assert.strictEqual(specificSeqCallback.calledCount, 1, `Specific "editor" sequence should fire`);
+        it("should fire bindings of unrelated active contexts, but only the most specific within a hierarchy", () => {
+            const appCallback = createMockFn();
+            keyManager.addCombination({ id: "app", keys: Keys.Escape, context: "app" }).subscribe(appCallback);
+            keyManager.addCombination({ id: "editor", keys: Keys.Escape, context: "app.editor" }).subscribe(editorCallback);
+            keyManager.addCombination({ id: "terminal", keys: Keys.Escape, context: "terminal" }).subscribe(terminalCallback);
+            keyManager.enterContext("app.editor");
+            keyManager.enterContext("terminal");
+            dispatchKeyEvent(document, Keys.Escape);
+            assert.strictEqual(editorCallback.calledCount, 1);
+            assert.strictEqual(terminalCallback.calledCount, 1);
+            assert.strictEqual(appCallback.calledCount, 0);
+            assert.strictEqual(keyManager.isContextActive("app"), true);
         });
 
-        it("should suppress strict sequence but trigger default global sequence in a non-conflicting context", () => {
-            keyManager.setContext("someOtherContext");
+        it("should let the override context replace every stacked context", () => {
+            keyManager.addCombination({ id: "editor", keys: "ctrl+s", context: "editor" }).subscribe(editorCallback);
+            keyManager.enterContext("editor");
+            keyManager.enterContext("terminal");
+            const restore = keyManager.setContext("saving");
+            assert.deepStrictEqual(keyManager.getActiveContexts(), ["saving"]);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(editorCallback.calledCount, 0);
+            restore();
+            assert.deepStrictEqual(keyManager.getActiveContexts(), ["editor", "terminal"]);
+        });
 
-            [Keys.G, Keys.O].forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(strictSeqCallback.calledCount, 0, "Strict sequence should NOT fire");
+        it("should emit the active contexts through activeContexts$", () => {
+            const emissions: string[][] = [];
+            keyManager.activeContexts$.subscribe(contexts => emissions.push(contexts));
+            keyManager.enterContext("sidebar");
+            keyManager.enterContext("editor");
+            keyManager.enterContext("sidebar"); // Already active: no emission
+            keyManager.leaveContext("editor");
+            assert.deepStrictEqual(emissions, [[], ["sidebar"], ["sidebar", "editor"], ["sidebar"]]);
+        });
 
-            testSequence.forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(defaultSeqCallback.calledCount, 1, "Default global sequence should fire");
-            assert.strictEqual(specificSeqCallback.calledCount, 0, `Specific "editor" sequence should not fire`);
+        it("should report conflicts between unrelated contexts that can be active together", () => {
+            keyManager.addCombination({ id: "editorFind", keys: "ctrl+f", context: "editor" });
+            keyManager.addCombination({ id: "terminalFind", keys: "ctrl+f", context: ["terminal", "output"] });
+            keyManager.addCombination({ id: "vimFind", keys: "ctrl+f", context: "editor.vim" });
+            assert.deepStrictEqual(keyManager.getConflicts(), [
+                { type: "combination", ids: ["editorFind", "terminalFind"], contexts: ["editor", ["terminal", "output"]], keys: "ctrl+f" },
+                { type: "combination", ids: ["terminalFind", "vimFind"], contexts: [["terminal", "output"], "editor.vim"], keys: "ctrl+f" },
+            ]);
         });
     });
 
-    describe("addSequence", () => {
-        it("should return an Observable that emits on a simple key sequence", () => {
-            const config: Omit<KeySequenceConfig, "callback"> = { id: "seqGI", sequence: [Keys.G, Keys.I] };
-            const seq$ = keyManager.addSequence(config);
-            assert(seq$ instanceof Observable, "Did not return an Observable");
+    describe("When Clauses", () => {
+        it("should only fire while the when clause holds", () => {
+            keyManager.addCombination({ id: "bold", keys: "ctrl+b", when: "editorFocus && !readOnly && resourceExtname == .md" }).subscribe(mockCallback);
+            keyManager.setContextKey("editorFocus", true);
+            keyManager.setContextKey("resourceExtname", ".md");
+            dispatchKeyEvent(document, Keys.B, "keydown", { ctrlKey: true });
+            keyManager.setContextKey("readOnly", true);
+            dispatchKeyEvent(document, Keys.B, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
 
-            seq$.subscribe(mockCallback);
-            dispatchKeyEvent(document, "g");
-            dispatchKeyEvent(document, "i");
+        it("should apply to sequences", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", when: "mailView" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            keyManager.setContextKey("mailView", true);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
             assert.strictEqual(mockCallback.calledCount, 1);
         });
 
-        it("should emit on Konami code using Keys", () => {
-            const konamiSequence: StandardKey[] = [
-                Keys.ArrowUp, Keys.ArrowUp, Keys.ArrowDown, Keys.ArrowDown,
-                Keys.ArrowLeft, Keys.ArrowRight, Keys.ArrowLeft, Keys.ArrowRight,
-                Keys.B, Keys.A
-            ];
-            const config: Omit<KeySequenceConfig, "callback"> = { id: "konami", sequence: konamiSequence };
-            keyManager.addSequence(config).subscribe(mockCallback);
-            ["ArrowUp", "ArrowUp", "ArrowDown", "ArrowDown", "ArrowLeft", "ArrowRight", "ArrowLeft", "ArrowRight", "b", "a"].forEach(key => dispatchKeyEvent(document, key));
-            assert.strictEqual(mockCallback.calledCount, 1, "Konami sequence callback not triggered");
+        it("should combine with contexts", () => {
+            keyManager.addCombination({ id: "run", keys: Keys.F5, context: "editor", when: "debuggable" }).subscribe(mockCallback);
+            keyManager.setContextKey("debuggable", true);
+            dispatchKeyEvent(document, Keys.F5);
+            keyManager.enterContext("editor");
+            dispatchKeyEvent(document, Keys.F5);
+            assert.strictEqual(mockCallback.calledCount, 1);
         });
 
+        it("should let a global shortcut fire when the when clause of a specific one fails", () => {
+            const globalCallback = createMockFn();
+            keyManager.addCombination({ id: "global", keys: Keys.Escape }).subscribe(globalCallback);
+            keyManager.addCombination({ id: "closeFind", keys: Keys.Escape, context: "editor", when: "findWidgetVisible" }).subscribe(mockCallback);
+            keyManager.enterContext("editor");
+            dispatchKeyEvent(document, Keys.Escape);
+            assert.strictEqual(globalCallback.calledCount, 1);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
 
-        it("should return an empty observable and warn if sequence is empty", () => {
-            const config: Omit<KeySequenceConfig, "callback"> = { id: "emptySeq", sequence: [] };
-            const seq$ = keyManager.addSequence(config);
+        it("should not add a shortcut with an invalid when clause", () => {
+            const result$ = keyManager.addCombination({ id: "bad", keys: Keys.A, when: "editorFocus &&" });
+            assert.strictEqual(result$, EMPTY);
+            assert.strictEqual(keyManager.hasShortcut("bad"), false);
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 1);
+            assert.match(String(consoleErrorMock.mock.calls[0].arguments[0]), /Invalid "when" clause for shortcut "bad": Expected a context key at position 14/);
+        });
+
+        it("should store context keys and emit their changes", () => {
+            const changes: unknown[] = [];
+            keyManager.onContextKeyChange$.subscribe(change => changes.push(change));
+            keyManager.setContextKey("readOnly", true);
+            keyManager.setContextKey("readOnly", true); // Unchanged: no emission
+            keyManager.setContextKey("readOnly", undefined);
+            assert.strictEqual(keyManager.getContextKey("readOnly"), undefined);
+            assert.deepStrictEqual(changes, [
+                { key: "readOnly", value: true, previousValue: undefined },
+                { key: "readOnly", value: undefined, previousValue: true },
+            ]);
+        });
+
+        it("should not report conflicts between different when clauses", () => {
+            keyManager.addCombination({ id: "a", keys: Keys.Tab, when: "suggestWidgetVisible" });
+            keyManager.addCombination({ id: "b", keys: Keys.Tab, when: "inSnippetMode" });
+            keyManager.addCombination({ id: "c", keys: Keys.Tab });
+            assert.deepStrictEqual(keyManager.getConflicts().map(conflict => conflict.ids), [["a", "c"], ["b", "c"]]);
+        });
+    });
+
+    describe("Priority and Consume", () => {
+        let lowCallback: ReturnType<typeof createMockFn>;
+
+        beforeEach(() => {
+            lowCallback = createMockFn();
+        });
+
+        it("should only fire the highest-priority shortcut in the same context", () => {
+            keyManager.setContext("editor");
+            keyManager.addCombination({ id: "high", keys: "ctrl+s", context: "editor", priority: 1 }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "low", keys: "ctrl+s", context: "editor" }).subscribe(lowCallback);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 0);
+        });
+
+        it("should let a higher-priority global shortcut win over a specific context one", () => {
+            keyManager.setContext("editor");
+            keyManager.addCombination({ id: "global", keys: "ctrl+s", priority: 10 }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "editorSave", keys: "ctrl+s", context: "editor" }).subscribe(lowCallback);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 0);
+        });
+
+        it("should compare priorities across the targets an event propagates through", () => {
+            keyManager.addCombination({ id: "low", keys: Keys.X, target: testArea }).subscribe(lowCallback);
+            keyManager.addCombination({ id: "high", keys: Keys.X, priority: 10 }).subscribe(mockCallback);
+            dispatchKeyEvent(testArea, Keys.X);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 0);
+
+            keyManager.remove("high");
+            keyManager.addCombination({ id: "high", keys: Keys.X, target: testArea, priority: 10 }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "global", keys: Keys.X }).subscribe(lowCallback);
+            dispatchKeyEvent(testArea, Keys.X);
+            assert.strictEqual(mockCallback.calledCount, 2);
+            assert.strictEqual(lowCallback.calledCount, 0);
+        });
+
+        it("should check each shortcut once per event across targets", () => {
+            const consoleLogMock = mock.method(console, "log", () => {});
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, true);
+            const input = document.createElement("input");
+            testArea.appendChild(input);
+            keyManager.addCombination({ id: "local", keys: Keys.K, target: testArea }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "global", keys: Keys.K }).subscribe(lowCallback);
+            dispatchKeyEvent(input, Keys.K);
+            const ignored = consoleLogMock.mock.calls
+                .map(call => String(call.arguments[0]))
+                .filter(message => message.includes("ignored in editable element"));
+            assert.strictEqual(ignored.length, 2);
+            assert.ok(ignored[0].includes(`"local"`) && ignored[1].includes(`"global"`));
+            input.remove();
+        });
+
+        it("should not fire a shortcut disabled by an earlier handler of the same event", () => {
+            keyManager.addCombination({ id: "local", keys: Keys.X, target: testArea }).subscribe(() => keyManager.disable("global"));
+            keyManager.addCombination({ id: "global", keys: Keys.X }).subscribe(lowCallback);
+            dispatchKeyEvent(testArea, Keys.X);
+            assert.strictEqual(lowCallback.calledCount, 0);
+        });
+
+        it("should fire all shortcuts of equal priority", () => {
+            keyManager.addCombination({ id: "first", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "second", keys: "ctrl+s" }).subscribe(lowCallback);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 1);
+        });
+
+        it("should compare sequences and combinations completed by the same event", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", priority: 1 }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "i", keys: Keys.I }).subscribe(lowCallback);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 0);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(lowCallback.calledCount, 1);
+        });
+
+        it("should stop a consumed event from reaching shortcuts on other targets", () => {
+            keyManager.addCombination({ id: "local", keys: Keys.Enter, target: testArea, consume: true }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "global", keys: Keys.Enter }).subscribe(lowCallback);
+            dispatchKeyEvent(testArea, Keys.Enter);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 0);
+        });
+
+        it("should let an unconsumed event reach shortcuts on other targets", () => {
+            keyManager.addCombination({ id: "local", keys: Keys.Enter, target: testArea }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "global", keys: Keys.Enter }).subscribe(lowCallback);
+            dispatchKeyEvent(testArea, Keys.Enter);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(lowCallback.calledCount, 1);
+        });
+
+        it("should not advance sequences with a key consumed by a combination", () => {
+            keyManager.addCombination({ id: "g", keys: Keys.G, consume: true }).subscribe(lowCallback);
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(lowCallback.calledCount, 1);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+    });
+
+    describe("Conflicts", () => {
+        it("should report combinations sharing a trigger in the same context", () => {
+            keyManager.addCombination({ id: "save", keys: ["ctrl+s", "f2"], context: "editor" });
+            keyManager.addCombination({ id: "submit", keys: "ctrl+s", context: "editor" });
+            assert.deepStrictEqual(keyManager.getConflicts(), [
+                { type: "combination", ids: ["save", "submit"], contexts: ["editor", "editor"], keys: "ctrl+s" },
+            ]);
+        });
+
+        it("should not report shortcuts in different contexts, on different targets or overriding a global one", () => {
+            keyManager.addCombination({ id: "global", keys: "ctrl+s" });
+            keyManager.addCombination({ id: "editor", keys: "ctrl+s", context: "editor" });
+            keyManager.addCombination({ id: "preview", keys: "ctrl+s", context: "preview" });
+            keyManager.addCombination({ id: "local", keys: "ctrl+s", target: testArea });
+            keyManager.addCombination({ id: "keyup", keys: "ctrl+s", event: "keyup" });
+            assert.deepStrictEqual(keyManager.getConflicts(), []);
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 0);
+        });
+
+        it("should report identical sequences and sequences that are prefixes of others", () => {
+            keyManager.addSequence({ id: "goInbox", sequence: "g -> i" });
+            keyManager.addSequence({ id: "goItems", sequence: "g -> i" });
+            keyManager.addSequence({ id: "goInboxUnread", sequence: "g -> i -> u" });
+            assert.deepStrictEqual(keyManager.getConflicts(), [
+                { type: "sequence", ids: ["goInbox", "goItems"], contexts: [null, null], keys: "g -> i" },
+                { type: "sequencePrefix", ids: ["goInbox", "goInboxUnread"], contexts: [null, null], keys: "g -> i" },
+                { type: "sequencePrefix", ids: ["goItems", "goInboxUnread"], contexts: [null, null], keys: "g -> i" },
+            ]);
+        });
+
+        it("should report combinations bound to the first key of a sequence", () => {
+            keyManager.addSequence({ id: "goInbox", sequence: "g -> i", context: "mail" });
+            keyManager.addCombination({ id: "g", keys: Keys.G, context: "mail" });
+            assert.deepStrictEqual(keyManager.getConflicts(), [
+                { type: "combinationShadowsSequence", ids: ["g", "goInbox"], contexts: ["mail", "mail"], keys: "g" },
+            ]);
+        });
+
+        it("should warn about conflicts on registration by default", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "submit", keys: "ctrl+s" });
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1);
+            assert.match(String(consoleWarnMock.mock.calls[0].arguments[0]), /"submit" conflicts .*"save" and "submit" are both bound to "ctrl\+s" globally/);
+            assert.ok(keyManager.hasShortcut("submit"));
+        });
+
+        it("should not warn when a shortcut is overwritten with the same id", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" });
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" });
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1); // The overwrite warning only
+            assert.deepStrictEqual(keyManager.getConflicts(), []);
+        });
+
+        it("should refuse conflicting shortcuts with onConflict: \"error\"", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { onConflict: "error" });
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            const submit$ = keyManager.addCombination({ id: "submit", keys: "ctrl+s" });
+            assert.strictEqual(submit$, EMPTY);
+            assert.strictEqual(keyManager.hasShortcut("submit"), false);
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 1);
+            assert.match(String(consoleErrorMock.mock.calls[0].arguments[0]), /Shortcut not added\./);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should register conflicting shortcuts silently with onConflict: \"ignore\"", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { onConflict: "ignore" });
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" });
+            keyManager.addCombination({ id: "g", keys: Keys.G });
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 0);
+            assert.strictEqual(keyManager.getConflicts().length, 1);
+        });
+    });
+
+    describe("Global Shortcut Context Behavior (`strict` flag)", () => {
+        let strictGlobalCallback: ReturnType<typeof createMockFn>;
+        let defaultGlobalCallback: ReturnType<typeof createMockFn>;
+        let specificContextCallback: ReturnType<typeof createMockFn>;
+
+        beforeEach(() => {
+            strictGlobalCallback = createMockFn();
+            defaultGlobalCallback = createMockFn();
+            specificContextCallback = createMockFn();
+
+            // 1. A specific shortcut for the "editor" context
+            keyManager.addCombination({
+                id: "editorSave",
+                keys: { key: Keys.S, ctrlKey: true },
+                context: "editor"
+            }).subscribe(specificContextCallback);
+
+            // 2. A "strictly global" shortcut, which only runs when context is null
+            keyManager.addCombination({
+                id: "strictGlobalOpen",
+                keys: { key: Keys.O, ctrlKey: true },
+                strict: true,
+            }).subscribe(strictGlobalCallback);
+
+            // 3. A default global shortcut, which runs in any context unless overridden
+            keyManager.addCombination({
+                id: "defaultGlobalSave",
+                keys: { key: Keys.S, ctrlKey: true },
+            }).subscribe(defaultGlobalCallback);
+        });
+
+        it("should trigger both strict and default global shortcuts when context is null", () => {
+            keyManager.setContext(null);
+
+            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
+            assert.strictEqual(strictGlobalCallback.calledCount, 1, "Strictly global (Ctrl+O) should fire");
+
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(defaultGlobalCallback.calledCount, 1, "Default global (Ctrl+S) should fire");
+            assert.strictEqual(specificContextCallback.calledCount, 0, "Specific context callback should not fire");
+        });
+
+        it("should suppress strict global but allow default global (which is then suppressed by priority)", () => {
+            keyManager.setContext("editor");
+
+            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
+            assert.strictEqual(strictGlobalCallback.calledCount, 0, `Strictly global (Ctrl+O) should NOT fire in "editor" context`);
+
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(defaultGlobalCallback.calledCount, 0, "Default global (Ctrl+S) should be suppressed by the specific one");
+            assert.strictEqual(specificContextCallback.calledCount, 1, `Specific "editor" callback (Ctrl+S) should fire and take priority`);
+        });
+
+        it("should suppress strict global but trigger default global in a non-conflicting context", () => {
+            keyManager.setContext("someOtherContext");
+
+            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
+            assert.strictEqual(strictGlobalCallback.calledCount, 0, `Strictly global (Ctrl+O) should NOT fire in "someOtherContext"`);
+
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(defaultGlobalCallback.calledCount, 1, "Default global (Ctrl+S) should fire since no override exists for this context");
+            assert.strictEqual(specificContextCallback.calledCount, 0, `Specific "editor" callback should not fire`);
+        });
+    });
+
+    describe("Sequence Context Behavior (`strict` flag)", () => {
+        // This test suite remains valid as `addSequence` already had the correct structure.
+        let strictSeqCallback: ReturnType<typeof createMockFn>;
+        let defaultSeqCallback: ReturnType<typeof createMockFn>;
+        let specificSeqCallback: ReturnType<typeof createMockFn>;
+        const testSequence: StandardKey[] = [Keys.M, Keys.A, Keys.P];
+
+        beforeEach(() => {
+            strictSeqCallback = createMockFn();
+            defaultSeqCallback = createMockFn();
+            specificSeqCallback = createMockFn();
+
+            keyManager.addSequence({ id: "strictSeq", sequence: [Keys.G, Keys.O], strict: true }).subscribe(strictSeqCallback);
+            keyManager.addSequence({ id: "defaultSeq", sequence: testSequence }).subscribe(defaultSeqCallback);
+            keyManager.addSequence({ id: "specificSeq", sequence: testSequence, context: "editor" }).subscribe(specificSeqCallback);
+        });
+
+        it("should trigger both strict and default global sequences when context is null", () => {
+            keyManager.setContext(null);
+
+            [Keys.G, Keys.O].forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(strictSeqCallback.calledCount, 1, "Strict sequence should fire");
+
+            testSequence.forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(defaultSeqCallback.calledCount, 1, "Default sequence should fire");
+            assert.strictEqual(specificSeqCallback.calledCount, 0, "Specific sequence should not fire");
+        });
+
+        it("should suppress strict sequence and prioritize specific sequence in a matching context", () => {
+            keyManager.setContext("editor");
+
+            [Keys.G, Keys.O].forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(strictSeqCallback.calledCount, 0, `Strict sequence should NOT fire in "editor" context`);
+
+            testSequence.forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(defaultSeqCallback.calledCount, 0, "Default global sequence should be suppressed");
+            assert.strictEqual(specificSeqCallback.calledCount, 1, `Specific "editor" sequence should fire`);
+        });
+
+        it("should suppress strict sequence but trigger default global sequence in a non-conflicting context", () => {
+            keyManager.setContext("someOtherContext");
+
+            [Keys.G, Keys.O].forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(strictSeqCallback.calledCount, 0, "Strict sequence should NOT fire");
+
+            testSequence.forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(defaultSeqCallback.calledCount, 1, "Default global sequence should fire");
+            assert.strictEqual(specificSeqCallback.calledCount, 0, `Specific "editor" sequence should not fire`);
+        });
+    });
+
+    describe("addSequence", () => {
+        it("should return an Observable that emits on a simple key sequence", () => {
+            const config: Omit<KeySequenceConfig, "callback"> = { id: "seqGI", sequence: [Keys.G, Keys.I] };
+            const seq$ = keyManager.addSequence(config);
+            assert(seq$ instanceof Observable, "Did not return an Observable");
+
+            seq$.subscribe(mockCallback);
+            dispatchKeyEvent(document, "g");
+            dispatchKeyEvent(document, "i");
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should emit on Konami code using Keys", () => {
+            const konamiSequence: StandardKey[] = [
+                Keys.ArrowUp, Keys.ArrowUp, Keys.ArrowDown, Keys.ArrowDown,
+                Keys.ArrowLeft, Keys.ArrowRight, Keys.ArrowLeft, Keys.ArrowRight,
+                Keys.B, Keys.A
+            ];
+            const config: Omit<KeySequenceConfig, "callback"> = { id: "konami", sequence: konamiSequence };
+            keyManager.addSequence(config).subscribe(mockCallback);
+            ["ArrowUp", "ArrowUp", "ArrowDown", "ArrowDown", "ArrowLeft", "ArrowRight", "ArrowLeft", "ArrowRight", "b", "a"].forEach(key => dispatchKeyEvent(document, key));
+            assert.strictEqual(mockCallback.calledCount, 1, "Konami sequence callback not triggered");
+        });
+
+
+        it("should return an empty observable and warn if sequence is empty", () => {
+            const config: Omit<KeySequenceConfig, "callback"> = { id: "emptySeq", sequence: [] };
+            const seq$ = keyManager.addSequence(config);
             seq$.subscribe(mockCallback);
             assert.strictEqual(consoleErrorMock.mock.calls.length, 1);
             assert.ok(consoleErrorMock.mock.calls[0].arguments[0].includes(`Sequence for shortcut "emptySeq" is empty`));
@@ -1145,6 +1905,71 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
             assert.strictEqual(mockCallback.calledCount, 1, "Callback for sequence starting with Keys.Space not called");
         });
 
+        describe("Modifier Sequences (Chords)", () => {
+            it(`should match a chord sequence "ctrl+k -> ctrl+s"`, () => {
+                keyManager.addSequence({ id: "chord", sequence: "ctrl+k -> ctrl+s" }).subscribe(mockCallback);
+                dispatchKeyEvent(document, "k", "keydown", { ctrlKey: true });
+                const lastEvent = dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true });
+                assert.strictEqual(mockCallback.calledCount, 1);
+                assert.deepStrictEqual(mockCallback.lastArgs, [lastEvent]);
+            });
+
+            it("should require the modifiers of every step", () => {
+                keyManager.addSequence({ id: "chordStrict", sequence: "ctrl+k -> ctrl+s" }).subscribe(mockCallback);
+                dispatchKeyEvent(document, "k", "keydown", { ctrlKey: true });
+                dispatchKeyEvent(document, "s");
+                assert.strictEqual(mockCallback.calledCount, 0, "Plain s should not complete the chord");
+
+                dispatchKeyEvent(document, "k");
+                dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true });
+                assert.strictEqual(mockCallback.calledCount, 0, "Plain k should not start the chord");
+            });
+
+            it("should ignore lone modifier presses between steps", () => {
+                keyManager.addSequence({ id: "chordRepress", sequence: "ctrl+k -> ctrl+s", sequenceTimeoutMs: 1000 }).subscribe(mockCallback);
+                dispatchKeyEvent(document, "Control", "keydown", { ctrlKey: true });
+                dispatchKeyEvent(document, "k", "keydown", { ctrlKey: true });
+                dispatchKeyEvent(document, "Control", "keydown", { ctrlKey: true }); // released and pressed again
+                dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true });
+                assert.strictEqual(mockCallback.calledCount, 1);
+            });
+
+            it("should accept trigger objects and mixed steps in the array form", () => {
+                keyManager.addSequence({
+                    id: "chordArray",
+                    sequence: [{ key: Keys.K, ctrlKey: true }, Keys.V, "[Digit1]"],
+                }).subscribe(mockCallback);
+                dispatchKeyEvent(document, "k", "keydown", { ctrlKey: true });
+                dispatchKeyEvent(document, "v");
+                dispatchKeyEvent(document, "&", "keydown", { code: "Digit1" });
+                assert.strictEqual(mockCallback.calledCount, 1);
+            });
+
+            it("should match a modifier key itself as a sequence step", () => {
+                keyManager.addSequence({ id: "doubleShift", sequence: "shift -> shift" }).subscribe(mockCallback);
+                dispatchKeyEvent(document, "Shift", "keydown", { shiftKey: true });
+                dispatchKeyEvent(document, "Shift", "keydown", { shiftKey: true });
+                assert.strictEqual(mockCallback.calledCount, 1);
+            });
+
+            it("should suppress a global chord only by an identical chord in the active context", () => {
+                const globalCallback = createMockFn();
+                keyManager.addSequence({ id: "globalChord", sequence: "ctrl+k -> ctrl+s" }).subscribe(globalCallback);
+                keyManager.addSequence({ id: "editorPlain", sequence: "ctrl+k -> s", context: "editor" });
+                keyManager.setContext("editor");
+
+                dispatchKeyEvent(document, "k", "keydown", { ctrlKey: true });
+                dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true });
+                assert.strictEqual(globalCallback.calledCount, 1, "A sequence with different modifiers should not suppress");
+
+                keyManager.addSequence({ id: "editorChord", sequence: "ctrl+k -> ctrl+s", context: "editor" }).subscribe(mockCallback);
+                dispatchKeyEvent(document, "k", "keydown", { ctrlKey: true });
+                dispatchKeyEvent(document, "s", "keydown", { ctrlKey: true });
+                assert.strictEqual(mockCallback.calledCount, 1, "Specific chord should fire");
+                assert.strictEqual(globalCallback.calledCount, 1, "Global chord should be suppressed by the identical one");
+            });
+        });
+
         describe("Sequence Contextual Triggering", () => {
             let editorSequenceConfig: Omit<KeySequenceConfig, "callback">;
             beforeEach(() => {
@@ -1211,25 +2036,366 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
                 assert.strictEqual(mockCallback.calledCount, 0);
             });
         });
-    });
 
-    describe("remove", () => {
-        it("should remove a combination shortcut and complete its observable", () => {
-            const completeCallback = createMockFn();
-            const combo$ = keyManager.addCombination({ id: "remA", keys: { key: Keys.A } });
-            combo$.subscribe({ next: mockCallback, complete: completeCallback });
+        describe("Shared Sequence Trie", () => {
+            const letters = "abcdefghijklmnopqrstuvwxyz";
 
-            assert.strictEqual(keyManager.remove("remA"), true);
-            assert.strictEqual(completeCallback.calledCount, 1, "Observable should have completed");
+            it("should emit sequences sharing a prefix independently", () => {
+                const shortCallback = createMockFn();
+                keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(shortCallback);
+                keyManager.addSequence({ id: "gil", sequence: "g -> i -> l" }).subscribe(mockCallback);
+                [Keys.G, Keys.I, Keys.L].forEach(k => dispatchKeyEvent(document, k));
+                assert.strictEqual(shortCallback.calledCount, 1);
+                assert.strictEqual(mockCallback.calledCount, 1);
+            });
 
-            dispatchKeyEvent(document, Keys.A);
-            assert.strictEqual(mockCallback.calledCount, 0);
-        });
+            it("should keep an identical sequence working after the other one is removed", () => {
+                const removedCallback = createMockFn();
+                keyManager.addSequence({ id: "first", sequence: "g -> i" }).subscribe(removedCallback);
+                keyManager.addSequence({ id: "second", sequence: "g -> i" }).subscribe(mockCallback);
+                keyManager.remove("first");
+                [Keys.G, Keys.I].forEach(k => dispatchKeyEvent(document, k));
+                assert.strictEqual(removedCallback.calledCount, 0);
+                assert.strictEqual(mockCallback.calledCount, 1);
+            });
 
-        it("should remove a sequence shortcut and complete its observable", () => {
-            const completeCallback = createMockFn();
-            const seq$ = keyManager.addSequence({ id: "remSeq", sequence: [Keys.A, Keys.B] });
-            seq$.subscribe({ next: mockCallback, complete: completeCallback });
+            it("should keep the per-keystroke work flat as registrations sharing a prefix grow", () => {
+                const sharedFor = (index: number) => `x -> ${letters[Math.floor(index / 26) % 26]} -> ${letters[index % 26]}`;
+                // The first ten sequences typed in full, each followed by a key that matches nothing.
+                const keystrokes = Array.from({ length: 10 }, (_, i) => [...sharedFor(i).split(" -> "), "1"]).flat();
+                const countWork = (registrations: number) => {
+                    const manager = new Hotkeys(null, false);
+                    for (let i = 0; i < registrations; i++) {
+                        manager.addSequence({ id: `seq${i}`, sequence: sharedFor(i) }).subscribe();
+                    }
+                    // @ts-ignore - spying on private methods
+                    const lookupMock = mock.method(SequenceTrie.prototype, "_lookup");
+                    // @ts-ignore
+                    const eligibilityMock = mock.method(manager, "_getEligibleSequence");
+                    keystrokes.forEach(key => dispatchKeyEvent(document, key));
+                    const work = { lookups: lookupMock.mock.callCount(), eligibilityChecks: eligibilityMock.mock.callCount() };
+                    lookupMock.mock.restore();
+                    manager.destroy();
+                    return work;
+                };
+
+                const small = countWork(10);
+                assert.ok(small.lookups > 0);
+                assert.deepStrictEqual(countWork(1000), small);
+            });
+        });
+    });
+
+    describe("sequenceProgress$", () => {
+        let progress: SequenceProgress[];
+
+        beforeEach(() => {
+            mock.timers.enable({ apis: ["Date", "setTimeout", "setInterval"] as any[], now: 0 });
+            // @ts-ignore
+            performanceNowMock = mock.method(global.performance, "now", () => Date.now());
+            progress = [];
+            keyManager.sequenceProgress$.subscribe(state => progress.push(state));
+        });
+
+        afterEach(() => {
+            mock.timers.reset();
+        });
+
+        it("should start with an empty state", () => {
+            assert.deepStrictEqual(progress, [{ keys: [], candidates: [], timeLeftMs: null }]);
+        });
+
+        it("should report pressed keys, candidates and remaining keys", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", description: "Go to inbox" }).subscribe();
+            keyManager.addSequence({ id: "gks", sequence: "g -> ctrl+k -> s" }).subscribe();
+            dispatchKeyEvent(document, Keys.G);
+            assert.deepStrictEqual(progress[progress.length - 1], {
+                keys: ["g"],
+                candidates: [
+                    { id: "gi", description: "Go to inbox", remainingKeys: ["i"] },
+                    { id: "gks", description: undefined, remainingKeys: ["ctrl+k", "s"] },
+                ],
+                timeLeftMs: null,
+            });
+            dispatchKeyEvent(document, Keys.K, "keydown", { ctrlKey: true });
+            assert.deepStrictEqual(progress[progress.length - 1], {
+                keys: ["g", "ctrl+k"],
+                candidates: [{ id: "gks", description: undefined, remainingKeys: ["s"] }],
+                timeLeftMs: null,
+            });
+        });
+
+        it("should report the sequence in progress to a later subscriber", () => {
+            const late: SequenceProgress[] = [];
+            const manager = new Hotkeys(null, false);
+            manager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe();
+            dispatchKeyEvent(document, Keys.G);
+            manager.sequenceProgress$.subscribe(state => late.push(state));
+            assert.deepStrictEqual(late, [{ keys: ["g"], candidates: [{ id: "gi", description: undefined, remainingKeys: ["i"] }], timeLeftMs: null }]);
+            manager.destroy();
+        });
+
+        it("should emit an empty state on completion", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(progress[progress.length - 1], { keys: [], candidates: [], timeLeftMs: null });
+        });
+
+        it("should emit an empty state when the sequence is broken", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe();
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.X);
+            assert.strictEqual(progress.length, 3);
+            assert.deepStrictEqual(progress[2], { keys: [], candidates: [], timeLeftMs: null });
+        });
+
+        it("should report the time left and emit an empty state on timeout", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", sequenceTimeoutMs: 500 }).subscribe();
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(progress[progress.length - 1].timeLeftMs, 500);
+            const count = progress.length;
+            mock.timers.tick(500);
+            assert.strictEqual(progress.length, count);
+            mock.timers.tick(1);
+            assert.strictEqual(progress.length, count + 1);
+            assert.deepStrictEqual(progress[progress.length - 1], { keys: [], candidates: [], timeLeftMs: null });
+        });
+
+        it("should not list candidates that are inactive in the current context", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", context: "editor" }).subscribe();
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(progress.length, 1);
+        });
+
+        it("should complete on destroy", () => {
+            const completeCallback = createMockFn();
+            keyManager.sequenceProgress$.subscribe({ complete: completeCallback });
+            keyManager.destroy();
+            assert.strictEqual(completeCallback.calledCount, 1);
+        });
+    });
+
+    describe("Sequence Resets", () => {
+        const setVisibility = (state: DocumentVisibilityState) => {
+            Object.defineProperty(document, "visibilityState", { value: state, configurable: true });
+            document.dispatchEvent(new window.Event("visibilitychange"));
+        };
+
+        afterEach(() => {
+            delete (document as any).visibilityState;
+        });
+
+        it("should reset a sequence in progress when the active context changes", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            keyManager.enterContext("modal");
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should keep a sequence in progress across context changes if resetOnContextChange is false", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i", resetOnContextChange: false }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            keyManager.enterContext("modal");
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should reset a sequence in progress when the window loses focus", () => {
+            const keptCallback = createMockFn();
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            keyManager.addSequence({ id: "giKept", sequence: "g -> i", resetOnBlur: false }).subscribe(keptCallback);
+            dispatchKeyEvent(document, Keys.G);
+            window.dispatchEvent(new window.Event("blur"));
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            assert.strictEqual(keptCallback.calledCount, 1);
+        });
+
+        it("should reset a sequence in progress when the page becomes hidden", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            setVisibility("visible");
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+
+            dispatchKeyEvent(document, Keys.G);
+            setVisibility("hidden");
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should log the reset reason in debug mode", () => {
+            const consoleLogMock = mock.method(console, "log", () => {});
+            keyManager.setDebugMode(true);
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            window.dispatchEvent(new window.Event("blur"));
+            assert.ok(consoleLogMock.mock.calls.some(call => String(call.arguments[0]).includes("reason: blur")));
+        });
+    });
+
+    describe("Ambiguous Combinations (holdAmbiguousCombinations)", () => {
+        let holdingManager: Hotkeys;
+        let sequenceCallback: ReturnType<typeof createMockFn>;
+
+        beforeEach(() => {
+            mock.timers.enable({ apis: ["Date", "setTimeout", "setInterval"] as any[], now: 0 });
+            // @ts-ignore
+            performanceNowMock = mock.method(global.performance, "now", () => Date.now());
+            holdingManager = new Hotkeys(null, false, { holdAmbiguousCombinations: true });
+            sequenceCallback = createMockFn();
+        });
+
+        afterEach(() => {
+            holdingManager.destroy();
+            mock.timers.reset();
+        });
+
+        it("should fire immediately when the option is off", () => {
+            keyManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should drop the held combination when the sequence continues", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(sequenceCallback.calledCount, 1);
+            mock.timers.tick(5000);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should drop the held combination when the manager is paused before its release", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i", sequenceTimeoutMs: 500 }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            holdingManager.pause();
+            mock.timers.tick(600);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should fire with the original event when a non-continuing key arrives", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            const gEvent = dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.X);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(mockCallback.lastArgs, [gEvent]);
+            assert.strictEqual(sequenceCallback.calledCount, 0);
+        });
+
+        it("should release a held combination before holding the next press", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i", sequenceTimeoutMs: 300 }).subscribe(sequenceCallback);
+            const firstEvent = dispatchKeyEvent(document, Keys.G);
+            mock.timers.tick(200);
+            const secondEvent = dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(mockCallback.lastArgs, [firstEvent]);
+            // The first press's timer does not release the second one early.
+            mock.timers.tick(299);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            mock.timers.tick(1);
+            assert.strictEqual(mockCallback.calledCount, 2);
+            assert.deepStrictEqual(mockCallback.lastArgs, [secondEvent]);
+        });
+
+        it("should fire the held combination before the shortcut of the next key", () => {
+            const fired: string[] = [];
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(() => fired.push("g"));
+            holdingManager.addCombination({ id: "x", keys: Keys.X }).subscribe(() => fired.push("x"));
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.X);
+            assert.deepStrictEqual(fired, ["g", "x"]);
+        });
+
+        it("should release the held combination when only an inactive sequence continues", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            holdingManager.addSequence({ id: "gx", sequence: "g -> x", context: "editor" }).subscribe(sequenceCallback);
+            holdingManager.setContextKey("ready", false);
+            holdingManager.addSequence({ id: "gy", sequence: "g -> y", when: "ready" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.X);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.Y);
+            assert.strictEqual(mockCallback.calledCount, 2);
+            assert.strictEqual(sequenceCallback.calledCount, 0);
+        });
+
+        it("should fire when the sequence timeout expires", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i", sequenceTimeoutMs: 300 }).subscribe(sequenceCallback);
+            const gEvent = dispatchKeyEvent(document, Keys.G);
+            mock.timers.tick(299);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            mock.timers.tick(1);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(mockCallback.lastArgs, [gEvent]);
+        });
+
+        it("should fall back to ambiguityTimeoutMs for sequences without a timeout", () => {
+            holdingManager.destroy();
+            holdingManager = new Hotkeys(null, false, { holdAmbiguousCombinations: true, ambiguityTimeoutMs: 200 });
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            mock.timers.tick(199);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            mock.timers.tick(1);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should prevent default while the event is dispatched", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G, preventDefault: true }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            const gEvent = dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(gEvent.defaultPrevented, true);
+        });
+
+        it("should not hold when the sequence is inactive in the current context", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i", context: "editor" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should cancel the held combination when it is removed", () => {
+            holdingManager.addCombination({ id: "g", keys: Keys.G }).subscribe(mockCallback);
+            holdingManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(sequenceCallback);
+            dispatchKeyEvent(document, Keys.G);
+            holdingManager.remove("g");
+            mock.timers.tick(5000);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+    });
+
+    describe("remove", () => {
+        it("should remove a combination shortcut and complete its observable", () => {
+            const completeCallback = createMockFn();
+            const combo$ = keyManager.addCombination({ id: "remA", keys: { key: Keys.A } });
+            combo$.subscribe({ next: mockCallback, complete: completeCallback });
+
+            assert.strictEqual(keyManager.remove("remA"), true);
+            assert.strictEqual(completeCallback.calledCount, 1, "Observable should have completed");
+
+            dispatchKeyEvent(document, Keys.A);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should remove a sequence shortcut and complete its observable", () => {
+            const completeCallback = createMockFn();
+            const seq$ = keyManager.addSequence({ id: "remSeq", sequence: [Keys.A, Keys.B] });
+            seq$.subscribe({ next: mockCallback, complete: completeCallback });
 
             assert.strictEqual(keyManager.remove("remSeq"), true);
             assert.strictEqual(completeCallback.calledCount, 1, "Observable should have completed");
@@ -1240,6 +2406,644 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
         });
     });
 
+    describe("rebind", () => {
+        it("should keep the same observable and subscribers for a combination", () => {
+            let completed = false;
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe({ next: mockCallback, complete: () => { completed = true; } });
+            assert.strictEqual(keyManager.rebind("save", ["ctrl+shift+s", "f2"]), true);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true, shiftKey: true });
+            dispatchKeyEvent(document, Keys.F2);
+            assert.strictEqual(mockCallback.calledCount, 2);
+            assert.strictEqual(completed, false);
+        });
+
+        it("should rebind a sequence and discard its progress", () => {
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            keyManager.rebind("inbox", [Keys.G, Keys.M]);
+            dispatchKeyEvent(document, Keys.I);
+            dispatchKeyEvent(document, Keys.M);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.M);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should keep the shortcut on its target", () => {
+            keyManager.addCombination({ id: "local", keys: Keys.Enter, target: testArea }).subscribe(mockCallback);
+            keyManager.rebind("local", Keys.Space);
+            dispatchKeyEvent(document, Keys.Space);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            dispatchKeyEvent(testArea, Keys.Space);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should keep the old keys when the new ones are invalid", () => {
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" }).subscribe(mockCallback);
+            assert.strictEqual(keyManager.rebind("inbox", []), false);
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 1);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should warn about unknown ids", () => {
+            assert.strictEqual(keyManager.rebind("missing", "ctrl+s"), false);
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1);
+        });
+
+        it("should re-run conflict checks", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" });
+            keyManager.addCombination({ id: "open", keys: "ctrl+o" });
+            keyManager.rebind("open", "ctrl+s");
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1);
+            assert.deepStrictEqual(keyManager.getConflicts().map(conflict => conflict.ids), [["save", "open"]]);
+        });
+
+        it("should refuse a conflicting binding with onConflict: \"error\"", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { onConflict: "error" });
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" });
+            keyManager.addCombination({ id: "open", keys: "ctrl+o" }).subscribe(mockCallback);
+            assert.strictEqual(keyManager.rebind("open", "ctrl+s"), false);
+            assert.match(String(consoleErrorMock.mock.calls[0].arguments[0]), /Shortcut not rebound\./);
+            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+    });
+
+    describe("Keymap Overrides", () => {
+        let storage: MemoryKeymapStorage;
+
+        beforeEach(() => {
+            storage = new MemoryKeymapStorage({ save: { keys: "ctrl+shift+s" }, print: { disabled: true } });
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { keymapStorage: storage });
+        });
+
+        it("should apply stored overrides when shortcuts are added", () => {
+            const printCallback = createMockFn();
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "print", keys: "ctrl+p" }).subscribe(printCallback);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true, shiftKey: true });
+            dispatchKeyEvent(document, Keys.P, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(printCallback.calledCount, 0);
+            assert.strictEqual(keyManager.isEnabled("print"), false);
+        });
+
+        it("should apply and persist a new override to a registered shortcut", () => {
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" }).subscribe(mockCallback);
+            assert.strictEqual(keyManager.setKeymapOverride("inbox", { keys: "g -> m" }), true);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.M);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(storage.load(), {
+                save: { keys: "ctrl+shift+s" },
+                print: { disabled: true },
+                inbox: { keys: "g -> m" },
+            });
+        });
+
+        it("should undo what a replaced override set", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "print", keys: "ctrl+p" });
+            keyManager.setKeymapOverride("save", { disabled: true });
+            keyManager.setKeymapOverride("print", { keys: "ctrl+shift+p" });
+            assert.strictEqual(keyManager.isEnabled("print"), true);
+            keyManager.setKeymapOverride("save", {});
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should not save an override that cannot be applied", () => {
+            keyManager.addCombination({ id: "open", keys: "ctrl+o" });
+            assert.strictEqual(keyManager.setKeymapOverride("open", { keys: [] }), false);
+            assert.strictEqual(keyManager.getKeymapOverrides().open, undefined);
+        });
+
+        it("should fall back to the default keys when a stored override is invalid", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { keymapStorage: new MemoryKeymapStorage({ save: { keys: "ctrl+" } }) });
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.ok(consoleWarnMock.mock.calls.some(call => /invalid keys\. Using the default keys/.test(String(call.arguments[0]))));
+        });
+
+        it("should reset a shortcut to its default keys and enabled state", () => {
+            const printCallback = createMockFn();
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "print", keys: "ctrl+p" }).subscribe(printCallback);
+            assert.strictEqual(keyManager.resetToDefault("save"), true);
+            assert.strictEqual(keyManager.resetToDefault("print"), true);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.P, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(printCallback.calledCount, 1);
+            assert.deepStrictEqual(storage.load(), {});
+        });
+
+        it("should reset every shortcut, including runtime rebinds", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "open", keys: "ctrl+o" });
+            keyManager.rebind("open", "ctrl+shift+o");
+            keyManager.resetAll();
+            assert.deepStrictEqual(keyManager.getKeymapOverrides(), {});
+            assert.deepStrictEqual(storage.load(), {});
+            assert.strictEqual(keyManager.isEnabled("print"), false); // Not registered: nothing to restore
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(keyManager.getConflicts(), []);
+        });
+
+        it("should keep a code-disabled shortcut disabled on reset", () => {
+            keyManager.addCombination({ id: "open", keys: "ctrl+o" });
+            keyManager.disable("open");
+            keyManager.resetToDefault("open");
+            assert.strictEqual(keyManager.isEnabled("open"), false);
+        });
+
+        it("should warn when resetting an unknown shortcut", () => {
+            assert.strictEqual(keyManager.resetToDefault("missing"), false);
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1);
+        });
+
+        it("should apply overrides loaded asynchronously to registered shortcuts", async () => {
+            let resolveLoad!: (overrides: KeymapOverrides) => void;
+            const saved: KeymapOverrides[] = [];
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, {
+                keymapStorage: {
+                    load: () => new Promise<KeymapOverrides>(resolve => { resolveLoad = resolve; }),
+                    save: overrides => { saved.push(overrides); },
+                },
+            });
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.setKeymapOverride("open", { keys: "ctrl+shift+o" });
+            resolveLoad({ save: { keys: "ctrl+shift+s" }, open: { disabled: true } });
+            await Promise.resolve();
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true, shiftKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.deepStrictEqual(keyManager.getKeymapOverrides(), { open: { keys: "ctrl+shift+o" }, save: { keys: "ctrl+shift+s" } });
+        });
+    });
+
+    describe("Keymap Export and Import", () => {
+        it("should export every shortcut in canonical form", () => {
+            keyManager.addCombination({ id: "save", keys: [{ key: Keys.S, ctrlKey: true }, "Shift+Alt+Plus"], description: "Save", context: "editor", preventDefault: true });
+            keyManager.addCombination({ id: "zoom", keys: "[Equal]", event: "keyup", target: testArea, options: { capture: true } });
+            keyManager.addSequence({ id: "inbox", sequence: [Keys.G, "Ctrl+ArrowUp", Keys.Space], sequenceTimeoutMs: 500, when: "listFocus" });
+            assert.strictEqual(keyManager.exportKeymap(), JSON.stringify({
+                version: 1,
+                bindings: [
+                    { id: "save", description: "Save", keys: ["ctrl+s", "alt+shift+plus"], context: "editor", preventDefault: true },
+                    { id: "zoom", keys: ["[Equal]"], event: "keyup" },
+                    { id: "inbox", sequence: "g -> ctrl+ArrowUp -> space", when: "listFocus", sequenceTimeoutMs: 500 },
+                ],
+            }, null, 2));
+        });
+
+        it("should export the keys as currently bound", () => {
+            keyManager.addCombination({ id: "save", keys: "mod+s" });
+            keyManager.rebind("save", "ctrl+shift+s");
+            assert.deepStrictEqual(JSON.parse(keyManager.exportKeymap()).bindings, [{ id: "save", keys: ["ctrl+shift+s"] }]);
+        });
+
+        it("should import an exported keymap into another instance", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+plus", context: "editor" });
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" });
+            const exported = keyManager.exportKeymap();
+            keyManager.destroy();
+            keyManager = new Hotkeys("editor", false);
+            const inboxCallback = createMockFn();
+            assert.deepStrictEqual(keyManager.importKeymap(exported, { save: mockCallback, inbox: inboxCallback }), ["save", "inbox"]);
+            dispatchKeyEvent(document, "+", "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(inboxCallback.calledCount, 1);
+            assert.strictEqual(keyManager.exportKeymap(), exported);
+        });
+
+        it("should import a preset", () => {
+            const firstItemCallback = createMockFn();
+            keyManager.importKeymap(vimPreset, { nextItem: mockCallback, firstItem: firstItemCallback });
+            dispatchKeyEvent(document, Keys.J);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.G);
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(firstItemCallback.calledCount, 1);
+        });
+
+        it("should import every preset without warnings", () => {
+            for (const preset of [defaultPreset, vimPreset, emacsPreset]) {
+                keyManager.destroy();
+                keyManager = new Hotkeys(null, false);
+                const ids = preset.bindings.map(binding => binding.id);
+                assert.deepStrictEqual(keyManager.importKeymap(preset, Object.fromEntries(ids.map(id => [id, () => {}]))), ids);
+            }
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 0);
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 0);
+        });
+
+        it("should skip bindings without a handler or that fail to register", () => {
+            const keymap = { version: 1 as const, bindings: [{ id: "save", keys: "ctrl+s" }, { id: "open", keys: "ctrl+o" }, { id: "print", keys: "ctrl+" }] };
+            assert.deepStrictEqual(keyManager.importKeymap(keymap, { save: mockCallback, print: mockCallback }), ["save"]);
+            assert.ok(consoleWarnMock.mock.calls.some(call => /No handler or command for shortcut "open"/.test(String(call.arguments[0]))));
+            assert.strictEqual(keyManager.hasShortcut("open"), false);
+            assert.strictEqual(keyManager.hasShortcut("print"), false);
+        });
+
+        it("should import nothing from an invalid keymap", () => {
+            const keymap = JSON.stringify({ version: 1, bindings: [{ id: "save", keys: "ctrl+s" }, { id: "open", keys: "ctrl+o", priority: "high" }] });
+            assert.deepStrictEqual(keyManager.importKeymap(keymap, { save: mockCallback, open: mockCallback }), []);
+            assert.strictEqual(keyManager.hasShortcut("save"), false);
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 1);
+            assert.match(String(consoleErrorMock.mock.calls[0].arguments[0]), /Expected a number at "bindings\[1\]\.priority" in keymap\. Keymap not imported\./);
+        });
+    });
+
+    describe("Converted Keybindings", () => {
+        it("should register shortcuts converted from VS Code and Electron", () => {
+            const zoomCallback = createMockFn();
+            const { shortcuts } = fromVSCodeKeybindings([
+                { key: "ctrl+k ctrl+c", command: "addComment", when: "editorFocus" },
+                { key: "ctrl+shift+=", command: "zoomIn" },
+            ]);
+            keyManager.addSequence(shortcuts[0] as KeySequenceConfig).subscribe(mockCallback);
+            keyManager.addCombination(shortcuts[1] as KeyCombinationConfig).subscribe(zoomCallback);
+            keyManager.addCombination({ id: "print", keys: fromElectronAccelerator("CmdOrCtrl+P").keys! }).subscribe(zoomCallback);
+            keyManager.setContextKey("editorFocus", true);
+            dispatchKeyEvent(document, Keys.K, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.C, "keydown", { ctrlKey: true });
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "+", code: "Equal", ctrlKey: true, shiftKey: true, bubbles: true }));
+            dispatchKeyEvent(document, Keys.P, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(zoomCallback.calledCount, 2);
+        });
+    });
+
+    describe("Commands", () => {
+        it("should run a command from each of its bindings, with their args", () => {
+            const calls: Array<[unknown, string | undefined]> = [];
+            keyManager.registerCommand("zoom", (args, event) => calls.push([args, event?.key]));
+            keyManager.addCombination({ id: "zoomIn", keys: "ctrl+=", command: "zoom", args: 1, preventDefault: true });
+            keyManager.addCombination({ id: "zoomOut", keys: "ctrl+-", command: "zoom", args: -1, context: "viewer" });
+            keyManager.addSequence({ id: "zoomReset", sequence: "z -> z", command: "zoom", args: 0 });
+
+            const event = dispatchKeyEvent(document, "=", "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, "-", "keydown", { ctrlKey: true });
+            keyManager.enterContext("viewer");
+            dispatchKeyEvent(document, "-", "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.Z);
+            dispatchKeyEvent(document, Keys.Z);
+            assert.deepStrictEqual(calls, [[1, "="], [-1, "-"], [0, Keys.Z]]);
+            assert.strictEqual(event.defaultPrevented, true);
+        });
+
+        it("should also emit on the Observable of a binding", () => {
+            keyManager.registerCommand("save", mockCallback);
+            const listener = createMockFn();
+            keyManager.addCombination({ id: "save", keys: "ctrl+s", command: "save" }).subscribe(listener);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(listener.calledCount, 1);
+        });
+
+        it("should execute commands programmatically", () => {
+            keyManager.registerCommand("open", mockCallback);
+            assert.strictEqual(keyManager.executeCommand("open", { path: "a.txt" }), true);
+            assert.deepStrictEqual(mockCallback.calls[0], [{ path: "a.txt" }]);
+            assert.strictEqual(keyManager.executeCommand("close"), false);
+            assert.match(String(consoleWarnMock.mock.calls[0].arguments[0]), /Command with ID "close" not found to execute/);
+        });
+
+        it("should look commands up when a binding fires", () => {
+            keyManager.addCombination({ id: "print", keys: "ctrl+p", command: "print" });
+            dispatchKeyEvent(document, Keys.P, "keydown", { ctrlKey: true });
+            assert.match(String(consoleWarnMock.mock.calls[0].arguments[0]), /Command "print" of shortcut "print" is not registered/);
+
+            const unregister = keyManager.registerCommand("print", mockCallback);
+            dispatchKeyEvent(document, Keys.P, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            unregister();
+            assert.strictEqual(keyManager.hasCommand("print"), false);
+            assert.strictEqual(keyManager.hasShortcut("print"), true);
+        });
+
+        it("should keep a replaced command when the old one is unregistered", () => {
+            const unregisterOld = keyManager.registerCommand("find", () => {});
+            keyManager.registerCommand("find", mockCallback);
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1);
+            unregisterOld();
+            assert.strictEqual(keyManager.executeCommand("find"), true);
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should log errors of commands run by bindings and keep running them", () => {
+            keyManager.registerCommand("fail", () => { throw new Error("Boom"); });
+            keyManager.addCombination({ id: "fail", keys: "ctrl+f", command: "fail" });
+            dispatchKeyEvent(document, Keys.F, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.F, "keydown", { ctrlKey: true });
+            assert.strictEqual(consoleErrorMock.mock.callCount(), 2);
+            assert.match(String(consoleErrorMock.mock.calls[0].arguments[0]), /Error in command "fail" run by shortcut "fail"/);
+            assert.throws(() => keyManager.executeCommand("fail"), /Boom/);
+        });
+
+        it("should list the bindings of a command, described by the command", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { platform: "windows" });
+            keyManager.registerCommand("undo", () => {}, { description: "Undo", category: "Edit" });
+            keyManager.addCombination({ id: "undo", keys: "ctrl+z", command: "undo" });
+            keyManager.addCombination({ id: "redo", keys: "ctrl+y" });
+            keyManager.addCombination({ id: "undo.editor", keys: "alt+Backspace", command: "undo", context: "editor", description: "Undo typing" });
+
+            assert.deepStrictEqual(keyManager.getActiveShortcuts({ command: "undo" }).map(({ id, description, label }) => ({ id, description, label })), [
+                { id: "undo", description: "Undo", label: "Ctrl+Z" },
+                { id: "undo.editor", description: "Undo typing", label: "Alt+Backspace" },
+            ]);
+            assert.deepStrictEqual(keyManager.getCheatSheet().map(({ category }) => category), ["Edit", null]);
+        });
+
+        it("should import and export bindings to commands", () => {
+            keyManager.registerCommand("goTo", mockCallback);
+            const keymap = { version: 1 as const, bindings: [{ id: "inbox", sequence: "g -> i", command: "goTo", args: { folder: "inbox" } }] };
+            assert.deepStrictEqual(keyManager.importKeymap(keymap), ["inbox"]);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+            assert.deepStrictEqual(mockCallback.calls[0][0], { folder: "inbox" });
+            assert.deepStrictEqual(JSON.parse(keyManager.exportKeymap()), keymap);
+        });
+    });
+
+    describe("Recording Shortcuts", () => {
+        it("should record the next combination without firing shortcuts", () => {
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            const recorded: RecordedShortcut[] = [];
+            let completed = false;
+            keyManager.recordShortcut().subscribe({ next: shortcut => recorded.push(shortcut), complete: () => { completed = true; } });
+
+            dispatchKeyEvent(document, Keys.Control, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.Shift, "keydown", { ctrlKey: true, shiftKey: true });
+            const event = dispatchKeyEvent(document, "S", "keydown", { ctrlKey: true, shiftKey: true });
+            assert.deepStrictEqual(recorded, [{ trigger: { key: Keys.S, ctrlKey: true, altKey: false, shiftKey: true, metaKey: false }, keys: "ctrl+shift+s" }]);
+            assert.strictEqual(completed, true);
+            assert.strictEqual(event.defaultPrevented, true);
+
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should silence shortcuts until the recording ends", () => {
+            keyManager.addCombination({ id: "shift", keys: Keys.Shift }).subscribe(mockCallback);
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            const subscription = keyManager.recordShortcut().subscribe();
+            dispatchKeyEvent(document, Keys.Shift, "keydown", { shiftKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+
+            subscription.unsubscribe();
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            dispatchKeyEvent(document, Keys.Shift, "keydown", { shiftKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+        });
+
+        it("should cancel with Escape or the configured key", () => {
+            const results: RecordedShortcut[] = [];
+            let completed = 0;
+            const observer = { next: (shortcut: RecordedShortcut) => results.push(shortcut), complete: () => { completed++; } };
+            keyManager.recordShortcut().subscribe(observer);
+            dispatchKeyEvent(document, Keys.Escape);
+            keyManager.recordShortcut({ cancelKey: Keys.Backspace }).subscribe(observer);
+            dispatchKeyEvent(document, Keys.Escape, "keydown", { shiftKey: true });
+            keyManager.recordShortcut({ cancelKey: Keys.Backspace }).subscribe(observer);
+            dispatchKeyEvent(document, Keys.Backspace);
+            assert.strictEqual(completed, 3);
+            assert.deepStrictEqual(results.map(result => result.keys), ["shift+Escape"]);
+        });
+
+        it("should record sequences until no key is pressed for the timeout", () => {
+            mock.timers.enable({ apis: ["setTimeout"] });
+            try {
+                const recorded: RecordedShortcut[] = [];
+                keyManager.recordShortcut({ allowSequence: true, timeoutMs: 500 }).subscribe(shortcut => recorded.push(shortcut));
+                dispatchKeyEvent(document, Keys.K, "keydown", { ctrlKey: true });
+                mock.timers.tick(400);
+                dispatchKeyEvent(document, Keys.C, "keydown", { ctrlKey: true });
+                mock.timers.tick(400);
+                assert.strictEqual(recorded.length, 0);
+                mock.timers.tick(100);
+                assert.strictEqual(recorded.length, 1);
+                assert.strictEqual(recorded[0].keys, "ctrl+k -> ctrl+c");
+                assert.deepStrictEqual(recorded[0].trigger, [
+                    { key: Keys.K, ctrlKey: true, altKey: false, shiftKey: false, metaKey: false },
+                    { key: Keys.C, ctrlKey: true, altKey: false, shiftKey: false, metaKey: false },
+                ]);
+
+                keyManager.recordShortcut({ allowSequence: true }).subscribe(shortcut => recorded.push(shortcut));
+                dispatchKeyEvent(document, Keys.F2);
+                mock.timers.tick(1000);
+                assert.strictEqual(recorded[1].keys, "F2");
+            } finally {
+                mock.timers.reset();
+            }
+        });
+
+        it("should record keys it does not know by their physical key", () => {
+            let recorded: RecordedShortcut | undefined;
+            keyManager.recordShortcut({ target: testArea }).subscribe(shortcut => { recorded = shortcut; });
+            dispatchKeyEvent(testArea, "Dead", "keydown", { code: "BracketLeft", altKey: true });
+            assert.deepStrictEqual(recorded, { trigger: { code: Codes.BracketLeft, ctrlKey: false, altKey: true, shiftKey: false, metaKey: false }, keys: "alt+[BracketLeft]" });
+        });
+
+        it("should record keys that rebind shortcuts", () => {
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" }).subscribe(mockCallback);
+            keyManager.recordShortcut({ allowSequence: true, timeoutMs: 0 }).subscribe(({ keys }) => keyManager.rebind("inbox", keys));
+            dispatchKeyEvent(document, Keys.G, "keydown", { altKey: true });
+            return new Promise<void>(resolve => setTimeout(() => {
+                dispatchKeyEvent(document, Keys.G, "keydown", { altKey: true });
+                assert.strictEqual(mockCallback.calledCount, 1);
+                resolve();
+            }, 10));
+        });
+    });
+
+    describe("Trigger Records", () => {
+        let records: ShortcutTriggerRecord[];
+
+        beforeEach(() => {
+            records = [];
+            keyManager.onTrigger$.subscribe(record => records.push(record));
+        });
+
+        it("should record every shortcut that fires", () => {
+            keyManager.addCombination({ id: "save", keys: ["ctrl+s", "F2"], preventDefault: true, context: "editor" }).subscribe(mockCallback);
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" });
+            keyManager.enterContext("editor");
+            const before = Date.now();
+            const event = dispatchKeyEvent(testArea, Keys.F2);
+            dispatchKeyEvent(document, Keys.G);
+            dispatchKeyEvent(document, Keys.I);
+
+            assert.deepStrictEqual(records[0], {
+                id: "save",
+                type: ShortcutTypes.Combination,
+                trigger: "F2",
+                context: "editor",
+                target: testArea,
+                timestamp: records[0].timestamp,
+                event,
+                suppressed: false,
+                prevented: true,
+            });
+            assert.ok(records[0].timestamp >= before && records[0].timestamp <= Date.now());
+            assert.deepStrictEqual(records.slice(1).map(({ id, type, trigger, prevented }) => ({ id, type, trigger, prevented })), [
+                { id: "inbox", type: ShortcutTypes.Sequence, trigger: "g -> i", prevented: false },
+            ]);
+        });
+
+        it("should record shortcuts suppressed by context priority, priority or strict", () => {
+            const suppressed: ShortcutTriggerRecord[] = [];
+            keyManager.onSuppressed$.subscribe(record => suppressed.push(record));
+            keyManager.addCombination({ id: "globalSave", keys: "ctrl+s" });
+            keyManager.addCombination({ id: "editorSave", keys: "ctrl+s", context: "editor" });
+            keyManager.addCombination({ id: "find", keys: "ctrl+f" });
+            keyManager.addCombination({ id: "findInEditor", keys: "ctrl+f", context: "editor", priority: 1 });
+            keyManager.addCombination({ id: "home", keys: "ctrl+h", strict: true });
+            keyManager.enterContext("editor");
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.F, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.H, "keydown", { ctrlKey: true });
+
+            const summarize = ({ id, suppressed, reason, suppressedBy }: ShortcutTriggerRecord) => ({ id, suppressed, reason, suppressedBy });
+            assert.deepStrictEqual(records.map(summarize), [
+                { id: "editorSave", suppressed: false, reason: undefined, suppressedBy: undefined },
+                { id: "globalSave", suppressed: true, reason: "context", suppressedBy: "editorSave" },
+                { id: "findInEditor", suppressed: false, reason: undefined, suppressedBy: undefined },
+                { id: "find", suppressed: true, reason: "priority", suppressedBy: "findInEditor" },
+                { id: "home", suppressed: true, reason: "strict", suppressedBy: undefined },
+            ]);
+            assert.deepStrictEqual(suppressed.map(record => record.id), ["globalSave", "find", "home"]);
+        });
+
+        it("should name a higher-priority shortcut on another target as the suppressor", () => {
+            keyManager.addCombination({ id: "local", keys: Keys.X, target: testArea });
+            keyManager.addCombination({ id: "global", keys: Keys.X, priority: 1 });
+            dispatchKeyEvent(testArea, Keys.X);
+            assert.deepStrictEqual(records.map(({ id, suppressed, reason, suppressedBy }) => ({ id, suppressed, reason, suppressedBy })), [
+                { id: "local", suppressed: true, reason: "priority", suppressedBy: "global" },
+                { id: "global", suppressed: false, reason: undefined, suppressedBy: undefined },
+            ]);
+        });
+
+        it("should not record shortcuts that cannot fire", () => {
+            keyManager.addCombination({ id: "disabled", keys: "a" });
+            keyManager.addCombination({ id: "inactive", keys: "b", context: "modal" });
+            keyManager.addCombination({ id: "unmet", keys: "c", when: "editorFocus" });
+            keyManager.addCombination({ id: "paused", keys: "d" });
+            keyManager.disable("disabled");
+            for (const key of [Keys.A, Keys.B, Keys.C]) {
+                dispatchKeyEvent(document, key);
+            }
+            keyManager.pause();
+            dispatchKeyEvent(document, Keys.D);
+            assert.deepStrictEqual(records, []);
+        });
+
+        it("should complete on destroy", () => {
+            let completed = false;
+            keyManager.onSuppressed$.subscribe({ complete: () => { completed = true; } });
+            keyManager.destroy();
+            assert.strictEqual(completed, true);
+        });
+    });
+
+    describe("Enable, Disable, Pause and Resume", () => {
+        it("should silence a disabled shortcut and keep its subscription alive", () => {
+            let completed = false;
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe({ next: mockCallback, complete: () => { completed = true; } });
+            assert.strictEqual(keyManager.disable("save"), true);
+            assert.strictEqual(keyManager.isEnabled("save"), false);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+            assert.strictEqual(keyManager.enable("save"), true);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(completed, false);
+        });
+
+        it("should discard a disabled sequence in progress", () => {
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            dispatchKeyEvent(document, Keys.G);
+            keyManager.disable("gi");
+            keyManager.enable("gi");
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should let a global shortcut fire when the specific one is disabled", () => {
+            const globalCallback = createMockFn();
+            keyManager.addCombination({ id: "global", keys: Keys.Escape }).subscribe(globalCallback);
+            keyManager.addCombination({ id: "modal", keys: Keys.Escape, context: "modal" }).subscribe(mockCallback);
+            keyManager.enterContext("modal");
+            keyManager.disable("modal");
+            dispatchKeyEvent(document, Keys.Escape);
+            assert.strictEqual(globalCallback.calledCount, 1);
+            assert.strictEqual(mockCallback.calledCount, 0);
+        });
+
+        it("should warn about unknown ids", () => {
+            assert.strictEqual(keyManager.disable("missing"), false);
+            assert.strictEqual(keyManager.enable("missing"), false);
+            assert.strictEqual(keyManager.isEnabled("missing"), false);
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 2);
+        });
+
+        it("should silence every shortcut while paused and keep the enabled states", () => {
+            const disabledCallback = createMockFn();
+            keyManager.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(mockCallback);
+            keyManager.addCombination({ id: "open", keys: "ctrl+o" }).subscribe(disabledCallback);
+            keyManager.disable("open");
+            keyManager.pause();
+            assert.strictEqual(keyManager.isPaused(), true);
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 0);
+            keyManager.resume();
+            dispatchKeyEvent(document, Keys.S, "keydown", { ctrlKey: true });
+            dispatchKeyEvent(document, Keys.O, "keydown", { ctrlKey: true });
+            assert.strictEqual(mockCallback.calledCount, 1);
+            assert.strictEqual(disabledCallback.calledCount, 0);
+            assert.strictEqual(keyManager.isEnabled("save"), true);
+        });
+
+        it("should discard sequences in progress when paused", () => {
+            const progress: SequenceProgress[] = [];
+            keyManager.addSequence({ id: "gi", sequence: "g -> i" }).subscribe(mockCallback);
+            keyManager.sequenceProgress$.subscribe(value => progress.push(value));
+            dispatchKeyEvent(document, Keys.G);
+            keyManager.pause();
+            keyManager.resume();
+            dispatchKeyEvent(document, Keys.I);
+            assert.strictEqual(mockCallback.calledCount, 0);
+            assert.deepStrictEqual(progress[progress.length - 1].keys, []);
+        });
+
+        it("should report the enabled state in getActiveShortcuts", () => {
+            keyManager.addCombination({ id: "a", keys: Keys.A });
+            keyManager.addSequence({ id: "bc", sequence: "b -> c" });
+            keyManager.disable("bc");
+            assert.deepStrictEqual(keyManager.getActiveShortcuts().map(({ id, enabled }) => ({ id, enabled })), [
+                { id: "a", enabled: true },
+                { id: "bc", enabled: false },
+            ]);
+        });
+    });
+
     describe("getActiveShortcuts", () => {
         it("should return active combination and sequence shortcuts with enum types", () => {
             keyManager.addCombination({ id: "combo1", keys: { key: Keys.A }, description: "Test A" });
@@ -1254,6 +3058,170 @@ describe("Hotkeys Library (Node.js Test Runner)", () => {
             assert.ok(seq);
             assert.strictEqual(seq.type, ShortcutTypes.Sequence); // Use Enum for comparison
         });
+
+        it("should format a label for each shortcut", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { platform: "mac" });
+            keyManager.addCombination({ id: "save", keys: ["mod+s", { key: Keys.F2 }] });
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i" });
+            assert.deepStrictEqual(keyManager.getActiveShortcuts().map(({ id, label }) => ({ id, label })), [
+                { id: "save", label: "⌘S / F2" },
+                { id: "inbox", label: "G I" },
+            ]);
+        });
+
+        it("should format labels with the labelFormat option", () => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { platform: "windows", labelFormat: { style: "aria", separator: " then " } });
+            keyManager.addSequence({ id: "chord", sequence: "ctrl+k -> ctrl+s" });
+            keyManager.rebind("chord", "ctrl+k -> ctrl+shift+s");
+            assert.strictEqual(keyManager.getActiveShortcuts()[0].label, "Control+K then Control+Shift+S");
+        });
+    });
+
+    describe("Cheat Sheet", () => {
+        beforeEach(() => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { platform: "windows" });
+        });
+
+        it("should group shortcuts by category and context", () => {
+            keyManager.addCombination({ id: "help", keys: "shift+?" });
+            keyManager.addCombination({ id: "save", keys: ["mod+s", "F2"], category: "File", description: "Save", tags: ["io"] });
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i", category: "Navigation", context: "mail" });
+            keyManager.addCombination({ id: "close", keys: "Escape", category: "File", context: ["mail", "editor"] });
+            keyManager.addCombination({ id: "debug", keys: "ctrl+shift+d", category: "File", hidden: true });
+
+            const summary = keyManager.getCheatSheet().map(({ category, contexts }) => ({
+                category,
+                contexts: contexts.map(({ context, shortcuts }) => ({ context, ids: shortcuts.map(shortcut => shortcut.id) })),
+            }));
+            assert.deepStrictEqual(summary, [
+                { category: "File", contexts: [{ context: null, ids: ["save"] }, { context: "mail", ids: ["close"] }, { context: "editor", ids: ["close"] }] },
+                { category: "Navigation", contexts: [{ context: "mail", ids: ["inbox"] }] },
+                { category: null, contexts: [{ context: null, ids: ["help"] }] },
+            ]);
+            assert.deepStrictEqual(keyManager.getCheatSheet()[0].contexts[0].shortcuts[0], {
+                id: "save",
+                command: undefined,
+                description: "Save",
+                type: ShortcutTypes.Combination,
+                tags: ["io"],
+                triggers: ["ctrl+s", "F2"],
+                labels: ["Ctrl+S", "F2"],
+                enabled: true,
+                reachable: true,
+            });
+            assert.deepStrictEqual(keyManager.getCheatSheet()[1].contexts[0].shortcuts[0].triggers, ["g -> i"]);
+        });
+
+        it("should tell which shortcuts are reachable", () => {
+            keyManager.defineContext("compose", "mail");
+            keyManager.addCombination({ id: "global", keys: "ctrl+a" });
+            keyManager.addCombination({ id: "strict", keys: "ctrl+b", strict: true });
+            keyManager.addCombination({ id: "mail", keys: "ctrl+c", context: "mail" });
+            keyManager.addCombination({ id: "editor", keys: "ctrl+d", context: "editor" });
+            keyManager.addCombination({ id: "when", keys: "ctrl+e", when: "hasSelection" });
+            keyManager.addCombination({ id: "disabled", keys: "ctrl+f" });
+            keyManager.disable("disabled");
+            const reachable = () => keyManager.getCheatSheet()
+                .flatMap(({ contexts }) => contexts.flatMap(({ shortcuts }) => shortcuts))
+                .filter(shortcut => shortcut.reachable)
+                .map(shortcut => shortcut.id);
+
+            assert.deepStrictEqual(reachable(), ["global", "strict"]);
+            keyManager.enterContext("compose");
+            keyManager.setContextKey("hasSelection", true);
+            assert.deepStrictEqual(reachable(), ["global", "when", "mail"]);
+            keyManager.pause();
+            assert.deepStrictEqual(reachable(), []);
+        });
+
+        it("should emit the cheat sheet again when it changes", () => {
+            const sheets: string[][] = [];
+            let completed = false;
+            keyManager.cheatSheet$.subscribe({
+                next: categories => sheets.push(categories.flatMap(({ contexts }) => contexts.flatMap(({ shortcuts }) =>
+                    shortcuts.map(shortcut => `${shortcut.id}:${shortcut.labels.join(",")}:${shortcut.reachable}`)))),
+                complete: () => { completed = true; },
+            });
+
+            keyManager.addCombination({ id: "save", keys: "ctrl+s", context: "editor" });
+            keyManager.enterContext("editor");
+            keyManager.rebind("save", "ctrl+shift+s");
+            keyManager.disable("save");
+            keyManager.remove("save");
+            assert.deepStrictEqual(sheets, [
+                [],
+                ["save:Ctrl+S:false"],
+                ["save:Ctrl+S:true"],
+                ["save:Ctrl+Shift+S:true"],
+                ["save:Ctrl+Shift+S:false"],
+                [],
+            ]);
+            keyManager.destroy();
+            assert.strictEqual(completed, true);
+        });
+    });
+
+    describe("Shortcut Search", () => {
+        beforeEach(() => {
+            keyManager.destroy();
+            keyManager = new Hotkeys(null, false, { platform: "windows" });
+            keyManager.registerCommand("goTo", () => {}, { description: "Go to folder", category: "Navigation" });
+            keyManager.addCombination({ id: "save", keys: "ctrl+s", description: "Save file", category: "File" });
+            keyManager.addSequence({ id: "inbox", sequence: "g -> i", description: "Go to inbox", category: "Navigation" });
+            keyManager.addCombination({ id: "goToFolder", keys: "ctrl+shift+g", command: "goTo" });
+            keyManager.addCombination({ id: "reply", keys: "r", description: "Reply", context: "mail" });
+        });
+
+        it("should rank matches and highlight them", () => {
+            const results = keyManager.searchShortcuts("go");
+            assert.deepStrictEqual(results.map(result => result.id), ["inbox", "goToFolder"]);
+            assert.deepStrictEqual(results[0], {
+                id: "inbox",
+                command: undefined,
+                description: "Go to inbox",
+                category: "Navigation",
+                context: undefined,
+                type: ShortcutTypes.Sequence,
+                label: "G I",
+                score: results[0].score,
+                highlights: { description: [{ start: 0, end: 2 }] },
+            });
+            assert.strictEqual(results[1].description, "Go to folder");
+            assert.deepStrictEqual(keyManager.searchShortcuts("ctrl+s").map(result => result.id), ["save", "goToFolder"]);
+            assert.deepStrictEqual(keyManager.searchShortcuts("file nav"), []);
+        });
+
+        it("should only list shortcuts that can fire in the active contexts", () => {
+            const ids = () => keyManager.searchShortcuts("").map(result => result.id);
+            assert.deepStrictEqual(ids(), ["save", "inbox", "goToFolder"]);
+            keyManager.enterContext("mail");
+            keyManager.disable("save");
+            keyManager.addCombination({ id: "debug", keys: "ctrl+d", hidden: true });
+            keyManager.pause();
+            assert.deepStrictEqual(ids(), ["inbox", "goToFolder", "reply"]);
+            assert.deepStrictEqual(keyManager.searchShortcuts("", { limit: 2 }).map(result => result.id), ["inbox", "goToFolder"]);
+        });
+
+        it("should search again when the query, the shortcuts or the context change", () => {
+            const query$ = new BehaviorSubject("re");
+            const searches: string[][] = [];
+            const subscription = keyManager.searchShortcuts$(query$).subscribe(results => searches.push(results.map(result => result.id)));
+            keyManager.enterContext("mail");
+            keyManager.addCombination({ id: "refresh", keys: "F5", description: "Refresh" });
+            query$.next("reply");
+            keyManager.remove("reply");
+            subscription.unsubscribe();
+            assert.deepStrictEqual(searches, [
+                [],
+                ["reply"],
+                ["reply", "refresh"],
+                ["reply"],
+                [],
+            ]);
+        });
     });
 
     describe("hasShortcut", () => {
@@ -1,8 +1,23 @@
 import {
-    fromEvent, BehaviorSubject, EMPTY, Observable,
-    filter, map, bufferCount, withLatestFrom, tap, catchError, scan, merge, Subject, takeUntil, share, distinctUntilChanged, combineLatest,
+    fromEvent, BehaviorSubject, EMPTY, Observable, Subscription,
+    filter, map, tap, catchError, Subject, takeUntil, share, distinctUntilChanged, combineLatest, skip, merge, of, isObservable, defer,
 } from "rxjs";
-import { type StandardKey, Keys, KeyAliases } from "./keys.js";
+import { type StandardKey, type StandardCode, Keys, Codes } from "./keys.js";
+import {
+    type ParsedTrigger,
+    compareKey, isModifierKey, triggerMatchesEvent, triggerToString, sequenceToString, triggerToken, eventTokens, normalizeKey, normalizeCode, isCodeToken,
+} from "./triggers.js";
+import { type FormTag, getEventOrigin, getEditableKind } from "./editable.js";
+import { type SequenceEntry, type SequenceStep, type PendingSequences, SequenceTrie } from "./sequenceTrie.js";
+import { type ContextKeyValue, type WhenExpression, WhenClauseSyntaxError, parseWhenClause, evaluateWhenClause } from "./when.js";
+import {
+    type KeymapOverride, type KeymapOverrides, type KeymapStorage, type ShortcutKeys, type KeymapDocument, type KeymapHandlers,
+    KEYMAP_VERSION, KeymapValidationError, isPromiseLike, toKeymapBinding, parseKeymap,
+} from "./keymap.js";
+import { type ConflictPolicy, type ConflictSubject, type ShortcutConflict, findConflicts, describeConflict } from "./conflicts.js";
+import { type Platform, type PlatformKeys, detectPlatform, isPlatformKeys, resolvePlatformKeys } from "./platform.js";
+import { type FormatShortcutOptions, formatShortcut } from "./format.js";
+import { type ShortcutSearchField, type HighlightRange, matchShortcut } from "./search.js";
 
 // --- Enums, Interfaces and Types ---
 
@@ -11,23 +26,38 @@ export enum ShortcutTypes {
     Sequence = "sequence"
 }
 
-enum EmitStates {
-    Emit,
-    Ignore,
-    InProgress,
-}
-
-interface SequenceScanState {
-    matchedEvents: KeyboardEvent[];
-    lastEventTime: number;
-    emitState: EmitStates;
-}
-
 interface ShortcutConfigBase {
     id: string;
-    context?: string | null;
+    /**
+     * The ID of the command this shortcut runs (see `registerCommand`). The command's handler is called
+     * each time the shortcut fires, without subscribing to the returned Observable. Several shortcuts,
+     * e.g. in different contexts, can run the same command.
+     */
+    command?: string;
+    /**
+     * The arguments passed to the command's handler when this shortcut runs it.
+     */
+    args?: unknown;
+    /**
+     * The context(s) the shortcut is active in. An array matches any of its contexts,
+     * and an empty array is the same as no context.
+     */
+    context?: string | string[] | null;
     preventDefault?: boolean;
     description?: string;
+    /**
+     * The group the shortcut is listed under in `getCheatSheet()`, e.g. `"Editing"` or `"Navigation"`.
+     */
+    category?: string;
+    /**
+     * Free-form labels for the shortcut, e.g. for filtering a help screen. They do not affect matching.
+     */
+    tags?: string[];
+    /**
+     * If `true`, the shortcut works as usual but is left out of `getCheatSheet()`.
+     * @default false
+     */
+    hidden?: boolean;
     /**
      * **Only applicable if the shortcut has no top-level `context` defined.**
      * If `true`, this shortcut is **strictly global** and will only fire when the active
@@ -58,6 +88,46 @@ interface ShortcutConfigBase {
      * @default undefined
      */
     options?: AddEventListenerOptions;
+    /**
+     * Whether the shortcut fires while the user types in a form element (`<input>`, `<textarea>`, `<select>`).
+     * `true` enables it on all of them, an array only on the listed ones (e.g. `["select"]`).
+     * Keys listed in the manager's `editableExceptions` (Escape by default) always fire.
+     * @default The manager-wide `enableOnFormTags` option (`false` unless configured).
+     */
+    enableOnFormTags?: boolean | FormTag[];
+    /**
+     * Whether the shortcut fires while the user types in a `contenteditable` region.
+     * @default The manager-wide `enableOnContentEditable` option (`false` unless configured).
+     */
+    enableOnContentEditable?: boolean;
+    /**
+     * Whether the shortcut fires for keys pressed while an IME composes text (e.g. Japanese, Chinese or Korean input).
+     * Such events are recognized by `isComposing`, `keyCode === 229`, or a `compositionstart` on the target
+     * that has not ended yet.
+     * @default false
+     */
+    enableDuringComposition?: boolean;
+    /**
+     * The priority of the shortcut when several shortcuts match the same event.
+     * Only the matching shortcuts with the highest priority fire; lower ones are skipped, whatever their context.
+     * Among shortcuts of equal priority, one bound to the active context still suppresses an identical global one.
+     * Priorities are compared across every target the event propagates through (e.g. an element and the document).
+     * @default 0
+     */
+    priority?: number;
+    /**
+     * If `true`, an event that fires this shortcut is consumed: it no longer reaches shortcuts listening
+     * on other targets or phases (e.g. a `document` shortcut after an element-scoped one), and it does not
+     * advance sequences in progress.
+     * @default false
+     */
+    consume?: boolean;
+    /**
+     * A VS Code-style condition over the context keys set with `setContextKey`,
+     * e.g. `"editorFocus && !readOnly && resourceExtname == .md"`. The shortcut only fires while it holds.
+     * It is parsed once when the shortcut is added; a syntax error prevents the shortcut from being added.
+     */
+    when?: string;
 }
 
 /**
@@ -80,21 +150,21 @@ export type KeyCombinationTrigger = {
     altKey?: boolean;
     shiftKey?: boolean;
     metaKey?: boolean;
+} | {
+    /**
+     * The physical key for the combination.
+     * This MUST be a value from the exported `Codes` object (e.g., `Codes.KeyZ`, `Codes.BracketLeft`).
+     * It is compared with the browser event's `event.code`, so the shortcut stays on the same
+     * physical key regardless of the active keyboard layout (AZERTY, Dvorak, Cyrillic, ...).
+     * Refer to: https://developer.mozilla.org/en-US/docs/Web/API/UI_Events/Keyboard_event_code_values
+     */
+    code: StandardCode;
+    ctrlKey?: boolean;
+    altKey?: boolean;
+    shiftKey?: boolean;
+    metaKey?: boolean;
 } | StandardKey | string;
 
-/**
- * A fully parsed, canonical representation of a single key trigger.
- * All modifier keys are explicitly defined as booleans.
- */
-interface ParsedTrigger {
-    key: StandardKey;
-    ctrlKey: boolean;
-    altKey: boolean;
-    shiftKey: boolean;
-    metaKey: boolean;
-}
-
-
 export interface KeyCombinationConfig extends ShortcutConfigBase {
     /**
      * Defines the key or key combination(s) that trigger the shortcut.
@@ -109,83 +179,444 @@ export interface KeyCombinationConfig extends ShortcutConfigBase {
      *
      * **String:** A human-readable string like `"ctrl+s"` or `"shift+alt+k"`. Modifiers are joined by `+`.
      * Example: `"meta+k"`, `"ctrl+shift+?"`
+     * The `mod` modifier resolves to Meta (Command) on macOS and to Control everywhere else.
+     * Example: `"mod+s"` is Cmd+S on macOS and Ctrl+S on Windows and Linux.
+     * Wrap a value from `Codes` in brackets to match the physical key instead of the produced character.
+     * Example: `"ctrl+[KeyZ]"`, `"[BracketLeft]"`
      *
      * To define multiple triggers for the same action:
      * Example: `keys: [Keys.Enter, { key: Keys.Space, ctrlKey: true }]`
+     *
+     * **Per platform:** An object keyed by `mac`, `windows`, `linux` and `default`. The entry for the
+     * current platform is used, falling back to `default`.
+     * Example: `keys: { mac: "meta+backspace", default: "delete" }`
      */
-    keys: KeyCombinationTrigger | KeyCombinationTrigger[];
+    keys: KeyCombinationTrigger | KeyCombinationTrigger[] | PlatformKeys<KeyCombinationTrigger | KeyCombinationTrigger[]>;
 }
 
 export interface KeySequenceConfig extends ShortcutConfigBase {
     /**
-     * An array of keys or a string defining the sequence.
+     * An array of triggers or a string defining the sequence.
+     * Every step is a full trigger, so steps can carry modifiers (chords), e.g. VS Code's `Ctrl+K Ctrl+S`.
+     * Modifiers are matched exactly, like in `addCombination`; lone modifier key presses between the
+     * steps (e.g. pressing Ctrl again for the second chord) are ignored.
      *
-     * **Array:** Each key in the sequence MUST be a value from `Keys`.
-     * Example: `[Keys.G, Keys.I]`
+     * **Array:** Each step accepts the same forms as a `KeyCombinationTrigger`.
+     * Example: `[Keys.G, Keys.I]`, `[{ key: Keys.K, ctrlKey: true }, { key: Keys.S, ctrlKey: true }]`
      *
-     * **String:** A string where keys are separated by `->`.
-     * Example: `"g -> i"`, `"up -> up -> down -> down"`
+     * **String:** A string where steps are separated by `->`. Each step uses the combination string syntax.
+     * Example: `"g -> i"`, `"up -> up -> down -> down"`, `"ctrl+k -> ctrl+s"`
      */
-    sequence: StandardKey[] | string;
+    sequence: KeyCombinationTrigger[] | string;
     /**
      * Optional: Timeout in milliseconds between consecutive key presses in the sequence.
      * If the time between two keys in the sequence exceeds this value, the sequence attempt is reset.
-     * Set to 0 or undefined to disable inter-key timeout behavior (uses simpler buffer-based matching).
+     * Set to 0 or undefined to disable inter-key timeout behavior.
      */
     sequenceTimeoutMs?: number;
+    /**
+     * Optional: Whether a partially typed sequence is reset when the active context changes.
+     * @default true
+     */
+    resetOnContextChange?: boolean;
+    /**
+     * Optional: Whether a partially typed sequence is reset when the window loses focus.
+     * @default true
+     */
+    resetOnBlur?: boolean;
+    /**
+     * Optional: Whether a partially typed sequence is reset when the page becomes hidden
+     * (`document.visibilityState` changes to `"hidden"`, e.g. when switching tabs).
+     * @default true
+     */
+    resetOnHidden?: boolean;
 }
 
 type ShortcutConfig = KeyCombinationConfig | KeySequenceConfig;
 
+/**
+ * How many contexts can be active at once:
+ * - `"single"`: the override context if one is set, otherwise the top of the context stack.
+ * - `"multiple"`: the override context if one is set, otherwise every context on the stack.
+ */
+export type ContextMode = "single" | "multiple";
+
+/**
+ * Why sequences in progress are being reset. Each reason can be disabled per shortcut,
+ * see `resetOnContextChange`, `resetOnBlur` and `resetOnHidden` in {@link KeySequenceConfig}.
+ */
+type SequenceResetReason = "contextChange" | "blur" | "hidden";
+
+const SEQUENCE_RESET_OPTIONS: Record<SequenceResetReason, "resetOnContextChange" | "resetOnBlur" | "resetOnHidden"> = {
+    contextChange: "resetOnContextChange",
+    blur: "resetOnBlur",
+    hidden: "resetOnHidden",
+};
+
+/**
+ * Optional settings for a `Hotkeys` instance.
+ */
+export interface HotkeysOptions {
+    /**
+     * The platform used to resolve the `mod` modifier and per-platform `keys`.
+     * Pass a `Platform` to force a value (e.g. in tests), or a function to plug in custom detection.
+     * @default detectPlatform
+     */
+    platform?: Platform | (() => Platform);
+    /**
+     * Opt-in. When true, a combination whose key is also the first step of a sequence (e.g. `g` next to `g -> i`)
+     * is held back instead of firing immediately. It fires once the sequence can no longer continue:
+     * when the sequence's `sequenceTimeoutMs` expires or a key that does not continue the sequence is pressed.
+     * If the next key continues the sequence, the held combination is dropped.
+     * Similar to vim's `timeoutlen`.
+     * @default false
+     */
+    holdAmbiguousCombinations?: boolean;
+    /**
+     * How long (in milliseconds) a held combination waits when none of the sequences it may start
+     * has a `sequenceTimeoutMs`. Only used with `holdAmbiguousCombinations`.
+     * @default 1000
+     */
+    ambiguityTimeoutMs?: number;
+    /**
+     * Whether shortcuts fire while the user types in a form element, unless a shortcut sets its own `enableOnFormTags`.
+     * The element an event originates from is resolved through `composedPath()`, so this also covers shadow roots.
+     * @default false
+     */
+    enableOnFormTags?: boolean | FormTag[];
+    /**
+     * Whether shortcuts fire while the user types in a `contenteditable` region,
+     * unless a shortcut sets its own `enableOnContentEditable`.
+     * @default false
+     */
+    enableOnContentEditable?: boolean;
+    /**
+     * Keys that always fire their shortcuts, even from editable elements.
+     * @default [Keys.Escape]
+     */
+    editableExceptions?: StandardKey[];
+    /**
+     * What to do when a new shortcut conflicts with a registered one (see `getConflicts()`):
+     * `"warn"` logs a warning and adds the shortcut, `"error"` logs an error and does not add it,
+     * `"ignore"` adds it silently.
+     * @default "warn"
+     */
+    onConflict?: ConflictPolicy;
+    /**
+     * Whether only the top of the context stack is active, or every context on it at once
+     * (e.g. a sidebar, an editor and a terminal panel). See {@link ContextMode}.
+     * @default "single"
+     */
+    contextMode?: ContextMode;
+    /**
+     * Persists the user keymap overrides set with `setKeymapOverride`. The saved overrides are loaded
+     * when the instance is created, and applied to shortcuts as they are added.
+     * Without a storage, overrides only last as long as the instance.
+     */
+    keymapStorage?: KeymapStorage;
+    /**
+     * How the `label` of each shortcut returned by `getActiveShortcuts()` is formatted (see `formatShortcut`).
+     * The platform is always the instance's.
+     * @default {} (symbols on macOS, text elsewhere)
+     */
+    labelFormat?: Omit<FormatShortcutOptions, "platform">;
+}
+
+/**
+ * A shortcut that can complete the sequence in progress.
+ */
+export interface SequenceCandidate {
+    id: string;
+    description?: string;
+    /** The steps still to be pressed, in canonical string form (e.g. `["i"]` or `["ctrl+s"]`). */
+    remainingKeys: string[];
+}
+
+/**
+ * The state of the key sequence the user is typing, as emitted by `sequenceProgress$`.
+ * When no sequence is in progress, `keys` and `candidates` are empty and `timeLeftMs` is null.
+ */
+export interface SequenceProgress {
+    /** The steps pressed so far, in canonical string form (e.g. `["g"]` or `["ctrl+k"]`). */
+    keys: string[];
+    /** The shortcuts the sequence can still turn into. */
+    candidates: SequenceCandidate[];
+    /**
+     * Milliseconds left, at the time of emission, before the sequence resets for lack of a next key.
+     * Null if at least one candidate has no `sequenceTimeoutMs`.
+     */
+    timeLeftMs: number | null;
+}
+
+/**
+ * A registered shortcut, as listed by `getActiveShortcuts()`.
+ */
+export interface ShortcutInfo {
+    id: string;
+    /** The command the shortcut runs, if any. */
+    command?: string;
+    description?: string;
+    context?: string | string[] | null;
+    type: ShortcutTypes;
+    enabled: boolean;
+    /** The keys formatted for display, e.g. `"Ctrl+Shift+S"` or `"⌘⇧S"`. Alternative triggers are separated by `" / "`. */
+    label: string;
+}
+
+/**
+ * Runs a command, see `registerCommand`.
+ * @param args - The `args` of the shortcut that runs the command, or those passed to `executeCommand`.
+ * @param event - The event that fired the shortcut, or `undefined` when run with `executeCommand`.
+ */
+export type CommandHandler<A = unknown> = (args: A | undefined, event?: KeyboardEvent) => void;
+
+/**
+ * Describes a command. Shortcuts bound to the command without a `description` or `category` of their own use these.
+ */
+export interface CommandMetadata {
+    description?: string;
+    category?: string;
+}
+
+interface RegisteredCommand {
+    handler: CommandHandler;
+    metadata: CommandMetadata;
+}
+
+/**
+ * A shortcut as listed by `getCheatSheet()`.
+ */
+export interface CheatSheetEntry {
+    id: string;
+    command?: string;
+    description?: string;
+    type: ShortcutTypes;
+    tags: string[];
+    /** The keys in canonical string form, one per alternative trigger (e.g. `["ctrl+s", "F2"]`, or `["g -> i"]` for a sequence). */
+    triggers: string[];
+    /** The `triggers` formatted for display, see `formatShortcut()`. */
+    labels: string[];
+    enabled: boolean;
+    /**
+     * Whether the shortcut can fire right now: it is enabled, the manager is not paused,
+     * it is global or one of its contexts is active, and its `when` clause holds.
+     */
+    reachable: boolean;
+}
+
+/**
+ * The shortcuts of a category that belong to one context (`null` for global shortcuts).
+ */
+export interface CheatSheetContextGroup {
+    context: string | null;
+    shortcuts: CheatSheetEntry[];
+}
+
+/**
+ * The shortcuts of one category (`null` for shortcuts without one), grouped by context.
+ */
+export interface CheatSheetCategory {
+    category: string | null;
+    contexts: CheatSheetContextGroup[];
+}
+
+/**
+ * A shortcut found by `searchShortcuts()`.
+ */
+export interface ShortcutSearchResult {
+    id: string;
+    command?: string;
+    /** The description of the shortcut, or of its command. */
+    description?: string;
+    /** The category of the shortcut, or of its command. */
+    category?: string;
+    context?: string | string[] | null;
+    type: ShortcutTypes;
+    /** The keys formatted for display, as in `getActiveShortcuts()`. */
+    label: string;
+    /** How well the shortcut matches the query; higher is better. 0 for an empty query. */
+    score: number;
+    /** The matched characters of `description`, `id`, `category` and `label`, by field. */
+    highlights: Partial<Record<ShortcutSearchField, HighlightRange[]>>;
+}
+
+export interface SearchShortcutsOptions {
+    /** The maximum number of results. */
+    limit?: number;
+}
+
+export interface RecordShortcutOptions {
+    /**
+     * The element (or document) whose key presses are recorded.
+     * @default document
+     */
+    target?: EventTarget;
+    /**
+     * Whether several combinations pressed in a row are recorded as a sequence. The recording then ends
+     * once no key has been pressed for `timeoutMs`.
+     * @default false
+     */
+    allowSequence?: boolean;
+    /**
+     * With `allowSequence`, how long to wait for the next step of the sequence, in milliseconds.
+     * @default 1000
+     */
+    timeoutMs?: number;
+    /**
+     * The key that cancels the recording when pressed without modifiers, or null to only cancel by unsubscribing.
+     * @default Keys.Escape
+     */
+    cancelKey?: StandardKey | null;
+}
+
+/**
+ * A shortcut captured by `recordShortcut()`.
+ */
+export interface RecordedShortcut {
+    /** The combination pressed, with every modifier flag set explicitly, or the steps of a sequence. */
+    trigger: KeyCombinationTrigger | KeyCombinationTrigger[];
+    /**
+     * The shortcut in canonical string form, e.g. `"ctrl+shift+s"` or `"g -> i"`,
+     * as accepted by `addCombination`, `addSequence`, `rebind` and `setKeymapOverride`.
+     */
+    keys: string;
+}
+
+/**
+ * Why a matched shortcut did not fire:
+ * - `"context"`: an identical shortcut bound to a more specific active context fired instead.
+ * - `"priority"`: a matching shortcut with a higher `priority` fired instead.
+ * - `"strict"`: the shortcut is `strict` and a context is active.
+ */
+export type SuppressionReason = "context" | "priority" | "strict";
+
+/**
+ * A shortcut matched by a key press, as emitted by `onTrigger$` and `onSuppressed$`.
+ */
+export interface ShortcutTriggerRecord {
+    id: string;
+    type: ShortcutTypes;
+    /** The keys that matched, in canonical string form: the trigger of a combination (e.g. `"ctrl+s"`), or the sequence (e.g. `"g -> i"`). */
+    trigger: string;
+    /** The active context when the shortcut matched (see `getActiveContext()`). */
+    context: string | null;
+    /** The target of the key press, e.g. the focused element. */
+    target: EventTarget | null;
+    /** When the shortcut matched, in milliseconds since the epoch. */
+    timestamp: number;
+    /** The key press, or the last key press of a sequence. */
+    event: KeyboardEvent;
+    /** True if the shortcut matched but did not fire. */
+    suppressed: boolean;
+    /** Why the shortcut did not fire, if `suppressed`. */
+    reason?: SuppressionReason;
+    /** The ID of the shortcut that fired instead, if `suppressed` by another shortcut. */
+    suppressedBy?: string;
+    /** Whether the default action of the key press was prevented, by this shortcut or another. */
+    prevented: boolean;
+}
+
+/**
+ * A change of a context key, as emitted by `onContextKeyChange$`.
+ */
+export interface ContextKeyChange {
+    key: string;
+    /** The new value, or `undefined` if the key was removed. */
+    value: ContextKeyValue;
+    previousValue: ContextKeyValue;
+}
+
+const EMPTY_SEQUENCE_PROGRESS: SequenceProgress = Object.freeze({ keys: [], candidates: [], timeLeftMs: null }) as SequenceProgress;
+
 export interface ActiveShortcut {
     id: string;
     config: ShortcutConfig;
     terminator$: Subject<void>;
     parsedTriggers?: ParsedTrigger[];
+    parsedSequence?: ParsedTrigger[];
+    /** The dispatcher of the stream this shortcut listens on. */
+    dispatcher?: StreamDispatcher;
+    /** Emits the matched events (a single one for combinations) each time the shortcut fires. */
+    matches$?: Subject<KeyboardEvent[]>;
+    /** The parsed `when` clause of the config. */
+    when?: WhenExpression;
+    /** False while the shortcut is disabled with `disable(id)` or a keymap override. */
+    enabled: boolean;
+    /** The config as registered in code, before keymap overrides and `rebind`. */
+    defaultConfig: ShortcutConfig;
 }
 
-// --- Helper function to compare keys ---
 /**
- * Compares a browser event's key with a configured key.
- * - For single character keys (e.g., "a", "A", "7"), comparison is case-insensitive.
- * - For multi-character special keys (e.g., "Enter", "ArrowUp"), comparison is case-sensitive.
- * @param eventKey The `key` property from the `KeyboardEvent`.
- * @param configuredKey The key string from `Keys` used in the configuration.
- * @returns True if the keys match according to the rules, false otherwise.
+ * Routes the events of one shared stream (target, event type and listener options) to the shortcuts
+ * registered on it. Combinations are indexed by trigger token and sequences share a trie, so an event
+ * only visits the shortcuts it can match.
  */
-function compareKey(eventKey: string, configuredKey: StandardKey): boolean {
-    if (configuredKey.length === 1 && eventKey.length === 1) {
-        return eventKey.toLowerCase() === configuredKey.toLowerCase();
-    }
-    return eventKey === configuredKey;
+interface StreamDispatcher {
+    target: EventTarget;
+    eventType: "keydown" | "keyup";
+    source$: Observable<KeyboardEvent>;
+    /** Combination shortcuts, indexed by the tokens of their triggers (see `triggerToken`). */
+    combinations: Map<string, Set<ActiveShortcut>>;
+    sequenceTrie: SequenceTrie;
+    /** Every shortcut registered on this stream. The stream is listened to while this is not empty. */
+    shortcuts: Set<ActiveShortcut>;
+    /** The stream and IME composition listeners, held while `shortcuts` is not empty. */
+    subscription: Subscription | null;
+    /**
+     * Settles the combinations held back by `holdAmbiguousCombinations`, given the next keystroke.
+     * They run before the keystroke is dispatched, so a released combination fires first.
+     */
+    heldCombinations: Set<(event: KeyboardEvent) => void>;
 }
 
 /**
- * Normalizes a string representation of a key into a canonical StandardKey.
- * Handles case-insensitivity, aliases, and special characters.
- * @param key The raw key string to normalize.
- * @returns A StandardKey if valid, otherwise null.
+ * A shortcut matched by an event, before priorities are resolved.
+ * Candidates of the same `group` are identical: the same combination event, or the same completed sequence.
  */
-function normalizeKey(key: string): StandardKey | null {
-    // 1. Handle spacebar explicitly to avoid trimming
-    if (key === Keys.Space) {
-        return Keys.Space;
-    }
+interface DispatchCandidate {
+    shortcut: ActiveShortcut;
+    events: KeyboardEvent[];
+    group: unknown;
+}
 
-    // 2. Trim and convert to lower case for consistent matching
-    const normalizedStr = key.trim().toLowerCase();
-    if (normalizedStr === "") {
-        return null;
-    }
+/**
+ * The highest-priority candidate of an event among every dispatcher it propagates through.
+ */
+interface TopCandidate {
+    priority: number;
+    id: string;
+}
 
-    // 3. Look up in aliases, then in standard key values, then check for single char
-    const finalKey = KeyAliases[normalizedStr] ||
-                     (Object.values(Keys) as string[]).find(k => k.toLowerCase() === normalizedStr) as StandardKey ||
-                     (normalizedStr.length === 1 ? normalizedStr.toUpperCase() as StandardKey : undefined);
+/**
+ * A candidate that does not fire, and why.
+ */
+interface SuppressedCandidate {
+    candidate: DispatchCandidate;
+    reason: SuppressionReason;
+    /** The ID of the candidate that fires instead, if any. */
+    suppressedBy?: string;
+}
 
-    return finalKey || null;
+/**
+ * The shortcuts of one dispatcher that an event matches.
+ */
+interface CollectedCandidates {
+    candidates: DispatchCandidate[];
+    /** Candidates that only fail because they are `strict`. */
+    suppressed: SuppressedCandidate[];
+    /** The trie step to commit once the winners are known. */
+    step: SequenceStep | null;
 }
 
+/**
+ * The candidates of an event on every dispatcher of its propagation path, collected once,
+ * by the first dispatcher the event reaches.
+ */
+interface EventCandidates {
+    byDispatcher: Map<StreamDispatcher, CollectedCandidates>;
+    /** The highest-priority candidate on the path, when more than one dispatcher is on it. */
+    top: TopCandidate | null;
+}
 
 // --- Hotkeys Library ---
 
@@ -204,12 +635,51 @@ export class Hotkeys {
 
     // NEW: A unified stream cache that handles different listener options.
     private eventStreams: WeakMap<EventTarget, Map<string, Observable<KeyboardEvent>>>;
+    // One dispatcher per target and stream cache key, shared by all shortcuts on that stream.
+    private dispatchers: WeakMap<EventTarget, Map<string, StreamDispatcher>>;
+    // Dispatchers that hold at least one shortcut, used for progress reporting and resets.
+    private liveDispatchers: Set<StreamDispatcher>;
+    // Events consumed by a shortcut with `consume`, so that other dispatchers skip them.
+    private readonly consumedEvents = new WeakSet<KeyboardEvent>();
+    // The candidates of each event on its propagation path (see `_getEventCandidates`).
+    private readonly eventCandidates = new WeakMap<KeyboardEvent, EventCandidates>();
+    /** True between `pause()` and `resume()`: no shortcut fires. */
+    private paused = false;
+    /** The number of `recordShortcut()` recordings in progress. Shortcuts are silenced while it is not 0. */
+    private activeRecordings = 0;
+    private sequenceProgressSubject$: BehaviorSubject<SequenceProgress>;
+    private sequenceProgressTimer: ReturnType<typeof setTimeout> | null = null;
+    // Manager-wide listeners (context changes, window blur, page visibility), released on destroy.
+    private readonly subscriptions = new Subscription();
+    // Targets with an IME composition in progress.
+    private readonly composingTargets = new WeakSet<EventTarget>();
 
     private activeShortcuts: Map<string, ActiveShortcut>;
     private debugMode: boolean;
+    private readonly platform: Platform;
+    private readonly holdAmbiguousCombinations: boolean;
+    private readonly ambiguityTimeoutMs: number;
+    private readonly enableOnFormTags: boolean | FormTag[];
+    private readonly enableOnContentEditable: boolean;
+    private readonly editableExceptions: StandardKey[];
+    private readonly onConflict: ConflictPolicy;
+    private readonly contextMode: ContextMode;
+    private readonly keymapStorage?: KeymapStorage;
+    private readonly labelFormat: Omit<FormatShortcutOptions, "platform">;
+    /** User customizations, layered over the configs registered in code. */
+    private readonly keymapOverrides = new Map<string, KeymapOverride>();
+    private readonly commands = new Map<string, RegisteredCommand>();
 
     // --- Separate states for stack and override ---
     private contextStack$: BehaviorSubject<Array<string | null>>;
+    /** Parents declared with `defineContext`. Other contexts inherit from their dotted prefix. */
+    private readonly contextParents = new Map<string, string>();
+    /** The context keys `when` clauses are evaluated against. */
+    private readonly contextKeys = new Map<string, ContextKeyValue>();
+    private readonly contextKeyChangeSubject$ = new Subject<ContextKeyChange>();
+    /** Emits when a shortcut is added, removed, rebound, enabled or disabled, a command is registered or unregistered, and when the manager pauses or resumes. */
+    private readonly shortcutChangeSubject$ = new Subject<void>();
+    private readonly triggerSubject$ = new Subject<ShortcutTriggerRecord>();
     private overrideContext$: BehaviorSubject<string | null | typeof Hotkeys.NO_OVERRIDE>;
 
     /**
@@ -218,20 +688,48 @@ export class Hotkeys {
      * from the top of the stack.
      */
     private readonly activeContext$: Observable<string | null>;
+    /** Every active context: a single one at most, unless `contextMode` is "multiple". */
+    private readonly activeContextList$: Observable<string[]>;
 
     /**
      * Creates an instance of Hotkeys.
      * @param initialContext - Optional initial context name. This forms the base of the context stack.
      * @param debugMode - Optional. If true, debug messages will be logged to the console. Defaults to false.
+     * @param options - Optional. Additional settings, see {@link HotkeysOptions}.
      * @throws Error if not in a browser environment (i.e., `document` or `performance` is undefined).
      */
-    constructor(initialContext: string | null = null, debugMode: boolean = false) {
+    constructor(initialContext: string | null = null, debugMode: boolean = false, options: HotkeysOptions = {}) {
         this.debugMode = debugMode;
 
         if (typeof document === "undefined" || typeof performance === "undefined") {
             throw new Error(`${Hotkeys.LOG_PREFIX} Hotkeys can only be used in a browser environment.`);
         }
+        const {
+            platform = detectPlatform,
+            holdAmbiguousCombinations = false,
+            ambiguityTimeoutMs = 1000,
+            enableOnFormTags = false,
+            enableOnContentEditable = false,
+            editableExceptions = [Keys.Escape],
+            onConflict = "warn",
+            contextMode = "single",
+            keymapStorage,
+            labelFormat = {},
+        } = options;
+        this.platform = typeof platform === "function" ? platform() : platform;
+        this.holdAmbiguousCombinations = holdAmbiguousCombinations;
+        this.ambiguityTimeoutMs = ambiguityTimeoutMs;
+        this.enableOnFormTags = enableOnFormTags;
+        this.enableOnContentEditable = enableOnContentEditable;
+        this.editableExceptions = editableExceptions;
+        this.onConflict = onConflict;
+        this.contextMode = contextMode;
+        this.keymapStorage = keymapStorage;
+        this.labelFormat = labelFormat;
         this.eventStreams = new WeakMap(); // Initialize the new unified cache
+        this.dispatchers = new WeakMap();
+        this.liveDispatchers = new Set();
+        this.sequenceProgressSubject$ = new BehaviorSubject<SequenceProgress>(EMPTY_SEQUENCE_PROGRESS);
         this.activeShortcuts = new Map();
 
         // The context stack is the source of truth for the active context.
@@ -246,14 +744,31 @@ export class Hotkeys {
             map(([overrideCtx, stackCtx]) => this._resolveActiveContext(overrideCtx, stackCtx)),
             distinctUntilChanged(),
         );
+        this.activeContextList$ = combineLatest([this.overrideContext$, this.contextStack$]).pipe(
+            map(([overrideCtx, stack]) => this._resolveActiveContexts(overrideCtx, stack)),
+            distinctUntilChanged((previous, current) =>
+                previous.length === current.length && previous.every((context, i) => context === current[i])),
+        );
 
         if (this.debugMode) {
-            console.log(`${Hotkeys.LOG_PREFIX} Library initialized. Initial context: "${initialContext}". Debug mode: ${debugMode}.`);
+            console.log(`${Hotkeys.LOG_PREFIX} Library initialized. Initial context: "${initialContext}". Platform: ${this.platform}. Debug mode: ${debugMode}.`);
             // Optional: Log context changes for debugging
             this.activeContext$.subscribe(newContext => {
                  console.log(`${Hotkeys.LOG_PREFIX} Active context changed to: ${newContext}`);
             });
         }
+
+        // Partially typed sequences should not survive a change of context, focus or page visibility.
+        this.subscriptions.add(this.activeContextList$.pipe(skip(1)).subscribe(() => this._resetSequences("contextChange")));
+        if (typeof window !== "undefined") {
+            this.subscriptions.add(fromEvent(window, "blur").subscribe(() => this._resetSequences("blur")));
+        }
+        this.subscriptions.add(
+            fromEvent(document, "visibilitychange").pipe(
+                filter(() => document.visibilityState === "hidden"),
+            ).subscribe(() => this._resetSequences("hidden"))
+        );
+        this._loadKeymap();
     }
 
     /**
@@ -263,8 +778,25 @@ export class Hotkeys {
         return overrideCtx !== Hotkeys.NO_OVERRIDE ? overrideCtx : stackCtx;
     }
 
+    /**
+     * Helper method to determine every active context, depending on `contextMode`.
+     */
+    private _resolveActiveContexts(overrideCtx: string | null | typeof Hotkeys.NO_OVERRIDE, stack: Array<string | null>): string[] {
+        if (overrideCtx !== Hotkeys.NO_OVERRIDE) {
+            return overrideCtx == null ? [] : [overrideCtx];
+        }
+        if (this.contextMode === "multiple") {
+            return [...new Set(stack.filter((context): context is string => context != null))];
+        }
+        const stackCtx = stack.length > 0 ? stack[stack.length - 1] : null;
+        return stackCtx == null ? [] : [stackCtx];
+    }
+
     private _normalizeAndParseTriggers(keys: KeyCombinationConfig["keys"], shortcutId: string): ParsedTrigger[] {
-        const keyInputs = Array.isArray(keys) ? keys : [keys];
+        const platformKeys = isPlatformKeys<KeyCombinationTrigger | KeyCombinationTrigger[]>(keys)
+            ? resolvePlatformKeys(keys, this.platform) ?? []
+            : keys as KeyCombinationTrigger | KeyCombinationTrigger[];
+        const keyInputs = Array.isArray(platformKeys) ? platformKeys : [platformKeys];
         const parsedTriggers: ParsedTrigger[] = [];
 
         for (const input of keyInputs) {
@@ -278,35 +810,55 @@ export class Hotkeys {
             for (const trigger of triggersToParse) {
                 const parsed = this._parseKeyTrigger(trigger, shortcutId);
                 if (parsed) {
-                    parsedTriggers.push({
-                        key: parsed.configuredMainKey,
-                        ctrlKey: !!parsed.ctrlKeyConfig,
-                        altKey: !!parsed.altKeyConfig,
-                        shiftKey: !!parsed.shiftKeyConfig,
-                        metaKey: !!parsed.metaKeyConfig,
-                    });
+                    parsedTriggers.push(parsed);
                 }
             }
         }
         return parsedTriggers;
     }
 
-    private _normalizeSequence(sequence: KeySequenceConfig["sequence"], shortcutId: string): StandardKey[] | null {
-        const keyInputs = typeof sequence === "string" ? sequence.split("->") : sequence;
-        const results: StandardKey[] = [];
+    private _normalizeSequence(sequence: KeySequenceConfig["sequence"], shortcutId: string): ParsedTrigger[] | null {
+        const stepInputs = typeof sequence === "string" ? sequence.split("->") : sequence;
+        const results: ParsedTrigger[] = [];
 
-        for (const keyStr of keyInputs) {
-            const finalKey = normalizeKey(typeof keyStr === "string" && keyStr.length > 1 ? keyStr.trim() : keyStr);
-            if (finalKey) {
-                results.push(finalKey);
+        for (const stepInput of stepInputs) {
+            const step = this._parseSequenceStep(typeof stepInput === "string" && stepInput.length > 1 ? stepInput.trim() : stepInput, shortcutId);
+            if (step) {
+                results.push(step);
             } else {
-                console.warn(`${Hotkeys.LOG_PREFIX} Could not parse key: "${keyStr}" in sequence for shortcut "${shortcutId}".`);
+                console.warn(`${Hotkeys.LOG_PREFIX} Could not parse key: "${stepInput}" in sequence for shortcut "${shortcutId}".`);
                 return null; // Fail fast if any key is invalid
             }
         }
         return results;
     }
 
+    /**
+     * Parses a single step of a sequence into a trigger.
+     * String steps use the combination string syntax (`"ctrl+k"`, `"[KeyZ]"`, `"g"`).
+     * @returns The parsed trigger, or null if the step is invalid.
+     */
+    private _parseSequenceStep(stepInput: KeyCombinationTrigger, shortcutId: string): ParsedTrigger | null {
+        if (typeof stepInput !== "string") {
+            return this._parseKeyTrigger(stepInput, shortcutId);
+        }
+        if (stepInput.length > 1 && stepInput.includes("+")) {
+            const [trigger] = this._parseCombinationString(stepInput);
+            return trigger ? this._parseKeyTrigger(trigger, shortcutId) : null;
+        }
+        const code = isCodeToken(stepInput) ? normalizeCode(stepInput) : null;
+        const key = code ? null : normalizeKey(stepInput);
+        if (!code && !key) {
+            return null;
+        }
+        return {
+            ...(code ? { code } : { key: key! }),
+            ctrlKey: false,
+            altKey: false,
+            shiftKey: false,
+            metaKey: false,
+        };
+    }
 
     /**
      * [PRIVATE] Generates a unique key for the stream cache based on event type and options.
@@ -349,79 +901,520 @@ export class Hotkeys {
     }
 
     /**
-     * Sets a temporary, high-priority override context that takes precedence over the context stack.
-     * @param contextName The override context to activate (can be a string or `null`).
-     * @returns A `restore` function that, when called, clears the override context, reverting to the stack.
+     * Tracks IME composition (`compositionstart` / `compositionend`) on a target the library listens to.
+     * @returns The listeners, to release with the dispatcher that listens to the target.
      */
-    public setContext(contextName: string | null): () => void {
-        if (this.debugMode) {
-            console.log(`${Hotkeys.LOG_PREFIX} Setting override context to: "${contextName}".`);
-        }
-        this.overrideContext$.next(contextName);
-
-        const restore = () => {
-            // Only clear the override if it's still the one we set.
-            if (this.overrideContext$.getValue() === contextName) {
-                if (this.debugMode) {
-                    console.log(`${Hotkeys.LOG_PREFIX} Restoring/clearing override context from: "${contextName}".`);
-                }
-                // Restore now sets the special "NO_OVERRIDE" value.
-                this.overrideContext$.next(Hotkeys.NO_OVERRIDE);
+    private _trackComposition(target: EventTarget): Subscription {
+        const subscription = new Subscription();
+        subscription.add(fromEvent(target, "compositionstart").subscribe(() => this.composingTargets.add(target)));
+        subscription.add(fromEvent(target, "compositionend").subscribe(() => this.composingTargets.delete(target)));
+        subscription.add(() => {
+            // A composition still in progress is forgotten once nothing listens to the target.
+            if (![...this.liveDispatchers].some(dispatcher => dispatcher.target === target)) {
+                this.composingTargets.delete(target);
             }
-        };
-        return restore;
+        });
+        return subscription;
     }
 
     /**
-     * @deprecated Rename to `getActiveContext`
-     * Gets the current active context, considering any override.
-     * @returns The current context name as a string, or `null` if no context is set.
+     * Checks whether a keyboard event is part of an IME composition (e.g. typing Japanese, Chinese or Korean).
      */
-    public getContext(): string | null {
-        console.warn(`${Hotkeys.LOG_PREFIX} "getContext" is deprecated. Use "getActiveContext()" or subscribe to "onContextChange$" instead.`);
-        return this.getActiveContext();
+    private _isComposing(event: KeyboardEvent, target: EventTarget): boolean {
+        // keyCode 229 is what browsers report for keys processed by an IME, e.g. Safari's final Enter after compositionend.
+        return event.isComposing || event.keyCode === 229 || this.composingTargets.has(target);
     }
 
     /**
-     * Gets the current active context, considering any override.
-     * @returns The current context name as a string, or `null` if no context is set.
+     * Gets or creates the dispatcher for a given event type, target, and options.
+     * All shortcuts listening on the same event stream share it.
      */
-    public getActiveContext(): string | null {
-        const overrideCtx = this.overrideContext$.getValue();
-        const stack = this.contextStack$.getValue();
-        const stackCtx = stack.length > 0 ? stack[stack.length - 1] : null;
-        // Also uses the abstracted helper method.
-        return this._resolveActiveContext(overrideCtx, stackCtx);
+    private _getDispatcher(eventType: "keydown" | "keyup", target: EventTarget, options?: AddEventListenerOptions): StreamDispatcher {
+        if (!this.dispatchers.has(target)) {
+            this.dispatchers.set(target, new Map());
+        }
+        const targetCache = this.dispatchers.get(target)!;
+        const cacheKey = this._getStreamCacheKey(eventType, options);
+
+        if (!targetCache.has(cacheKey)) {
+            targetCache.set(cacheKey, {
+                target,
+                eventType,
+                source$: this._getEventStream(eventType, target, options),
+                combinations: new Map(),
+                sequenceTrie: new SequenceTrie({
+                    onChange: () => this._updateSequenceProgress(),
+                    now: () => performance.now(),
+                    debugLog: message => {
+                        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} ${message}`);
+                    },
+                }),
+                shortcuts: new Set(),
+                subscription: null,
+                heldCombinations: new Set(),
+            });
+        }
+        return targetCache.get(cacheKey)!;
     }
 
     /**
-     * Pushes a new context onto the context stack. It will become active if no override context is set.
-     * @param contextName The name of the context to enter (e.g., "modal", "editor").
+     * Registers a shortcut with its dispatcher and starts listening to the stream if needed.
      */
-    public enterContext(contextName: string | null): void {
-        const currentStack = this.contextStack$.getValue();
-        const newStack = [...currentStack, contextName];
-        if (this.debugMode) {
-            console.log(`${Hotkeys.LOG_PREFIX} Entering context: "${contextName}". New stack: [${newStack.join(", ")}]`);
-        }
+    private _attachShortcut(dispatcher: StreamDispatcher, shortcut: ActiveShortcut): void {
+        if (shortcut.parsedSequence) {
+            dispatcher.sequenceTrie.add({
+                id: shortcut.id,
+                steps: shortcut.parsedSequence,
+                timeoutMs: (shortcut.config as KeySequenceConfig).sequenceTimeoutMs ?? 0,
+            });
+        } else {
+            for (const trigger of shortcut.parsedTriggers ?? []) {
+                const token = triggerToken(trigger);
+                if (!dispatcher.combinations.has(token)) {
+                    dispatcher.combinations.set(token, new Set());
+                }
+                dispatcher.combinations.get(token)!.add(shortcut);
+            }
+        }
+        dispatcher.shortcuts.add(shortcut);
+        this.liveDispatchers.add(dispatcher);
+        if (!dispatcher.subscription) {
+            dispatcher.subscription = this._trackComposition(dispatcher.target);
+            dispatcher.subscription.add(dispatcher.source$.subscribe(event => this._dispatch(dispatcher, event)));
+        }
+    }
+
+    /**
+     * Unregisters a shortcut from its dispatcher and stops listening to the stream once it is empty.
+     */
+    private _detachShortcut(shortcut: ActiveShortcut): void {
+        const { dispatcher } = shortcut;
+        if (!dispatcher || !dispatcher.shortcuts.delete(shortcut)) {
+            return;
+        }
+        if (shortcut.parsedSequence) {
+            dispatcher.sequenceTrie.remove(shortcut.id);
+        } else {
+            for (const trigger of shortcut.parsedTriggers ?? []) {
+                const token = triggerToken(trigger);
+                const shortcuts = dispatcher.combinations.get(token);
+                shortcuts?.delete(shortcut);
+                if (shortcuts?.size === 0) {
+                    dispatcher.combinations.delete(token);
+                }
+            }
+        }
+        if (dispatcher.shortcuts.size === 0) {
+            this.liveDispatchers.delete(dispatcher);
+            dispatcher.subscription?.unsubscribe();
+            dispatcher.subscription = null;
+        }
+        if (shortcut.parsedSequence) {
+            this._updateSequenceProgress();
+        }
+    }
+
+    /**
+     * The central dispatcher: finds the shortcuts an event matches on a stream, resolves their
+     * priorities and context, and fires the winners.
+     */
+    private _dispatch(dispatcher: StreamDispatcher, event: KeyboardEvent): void {
+        for (const settle of [...dispatcher.heldCombinations]) {
+            settle(event);
+        }
+        if (this.consumedEvents.has(event)) {
+            if (this.debugMode) {
+                console.log(`${Hotkeys.LOG_PREFIX} Event (key: "${event.key}") already consumed. Skipping.`);
+            }
+            return;
+        }
+        if (this.paused || this.activeRecordings > 0) {
+            if (this.debugMode) {
+                console.log(`${Hotkeys.LOG_PREFIX} Event (key: "${event.key}") ignored while ${this.paused ? "paused" : "recording"}.`);
+            }
+            return;
+        }
+        const activeRanks = this._getActiveContextRanks();
+        const { collected: { candidates, suppressed, step }, top } = this._getEventCandidates(dispatcher, event, activeRanks);
+
+        const winners = this._resolveCandidates(candidates, activeRanks, suppressed, top);
+        const consumedBy = winners.find(candidate => candidate.shortcut.config.consume);
+        if (consumedBy) {
+            this.consumedEvents.add(event);
+            if (this.debugMode) {
+                console.log(`${Hotkeys.LOG_PREFIX} Event (key: "${event.key}") consumed by "${consumedBy.shortcut.id}".`);
+            }
+        }
+        // A key consumed by a combination is not part of any sequence.
+        if (!consumedBy || winners.some(candidate => candidate.shortcut.parsedSequence)) {
+            step?.commit();
+        }
+        for (const { shortcut, events } of winners) {
+            shortcut.matches$?.next(events);
+        }
+        // Recorded after the shortcuts fired, so that `prevented` is known.
+        if (this.triggerSubject$.observed) {
+            for (const candidate of winners) {
+                this.triggerSubject$.next(this._toTriggerRecord(candidate));
+            }
+            for (const suppression of suppressed) {
+                this.triggerSubject$.next(this._toTriggerRecord(suppression.candidate, suppression));
+            }
+        }
+    }
+
+    /**
+     * Finds the shortcuts of a dispatcher that an event matches: the combinations it triggers and the
+     * sequences it completes. The trie step is not committed.
+     */
+    private _collectCandidates(dispatcher: StreamDispatcher, event: KeyboardEvent, activeRanks: Map<string, number>): CollectedCandidates {
+        const candidates: DispatchCandidate[] = [];
+        const suppressed: SuppressedCandidate[] = [];
+
+        const matchedCombinations = new Set<ActiveShortcut>();
+        for (const token of eventTokens(event)) {
+            for (const shortcut of dispatcher.combinations.get(token) ?? []) {
+                if (matchedCombinations.has(shortcut)) {
+                    continue; // Matched by both key and code
+                }
+                matchedCombinations.add(shortcut);
+                if (!shortcut.enabled || !this._isWhenSatisfied(shortcut) || !this._isEventAllowed(shortcut.config, event)) {
+                    continue;
+                }
+                const candidate = { shortcut, events: [event], group: event };
+                if (this._isContextAllowed(shortcut.config, activeRanks)) {
+                    candidates.push(candidate);
+                } else if (this._isBlockedByStrict(shortcut.config, activeRanks)) {
+                    suppressed.push({ candidate, reason: "strict" });
+                }
+            }
+        }
+
+        const step = dispatcher.sequenceTrie.size > 0 ? dispatcher.sequenceTrie.process(event) : null;
+        for (const match of step?.matches ?? []) {
+            for (const entry of match.entries) {
+                const shortcut = this.activeShortcuts.get(entry.id);
+                if (!shortcut?.enabled || !this._isWhenSatisfied(shortcut) ||
+                    !match.events.every(matchEvent => this._isEventAllowed(shortcut.config, matchEvent))) {
+                    continue;
+                }
+                const candidate = { shortcut, events: match.events, group: match };
+                if (this._isContextAllowed(shortcut.config, activeRanks)) {
+                    candidates.push(candidate);
+                } else if (this._isBlockedByStrict(shortcut.config, activeRanks)) {
+                    suppressed.push({ candidate, reason: "strict" });
+                }
+            }
+        }
+        return { candidates, suppressed, step };
+    }
+
+    /**
+     * Gets the candidates of an event on a dispatcher, and the highest-priority candidate across every dispatcher
+     * on the event's propagation path, so that priorities are compared across targets (e.g. an element and the document).
+     * The first dispatcher the event reaches collects the candidates of all of them; the others reuse them.
+     */
+    private _getEventCandidates(
+        dispatcher: StreamDispatcher,
+        event: KeyboardEvent,
+        activeRanks: Map<string, number>,
+    ): { collected: CollectedCandidates; top: TopCandidate | null } {
+        let eventCandidates = this.eventCandidates.get(event);
+        if (!eventCandidates) {
+            const path = event.composedPath();
+            const dispatchers = [...this.liveDispatchers]
+                .filter(other => other.eventType === event.type && path.includes(other.target))
+                .sort((a, b) => path.indexOf(a.target) - path.indexOf(b.target));
+            eventCandidates = { byDispatcher: new Map(), top: null };
+            for (const other of dispatchers) {
+                // Steps are committed by each dispatcher when the event reaches it; stale ones are ignored by the trie.
+                const collected = this._collectCandidates(other, event, activeRanks);
+                eventCandidates.byDispatcher.set(other, collected);
+                // A dispatcher alone on the path resolves its priorities by itself.
+                if (dispatchers.length > 1) {
+                    for (const { shortcut } of collected.candidates) {
+                        const priority = shortcut.config.priority ?? 0;
+                        if (!eventCandidates.top || priority > eventCandidates.top.priority) {
+                            eventCandidates.top = { priority, id: shortcut.id };
+                        }
+                    }
+                }
+            }
+            this.eventCandidates.set(event, eventCandidates);
+        }
+        const collected = eventCandidates.byDispatcher.get(dispatcher);
+        if (!collected) {
+            // The dispatcher started listening while the event was propagating.
+            return { collected: this._collectCandidates(dispatcher, event, activeRanks), top: eventCandidates.top };
+        }
+        // Shortcuts removed or disabled by an earlier handler of the event do not fire.
+        const isCurrent = ({ shortcut }: DispatchCandidate) => shortcut.enabled && this.activeShortcuts.get(shortcut.id) === shortcut;
+        return {
+            collected: {
+                candidates: collected.candidates.filter(isCurrent),
+                suppressed: collected.suppressed.filter(({ candidate }) => isCurrent(candidate)),
+                step: collected.step,
+            },
+            top: eventCandidates.top,
+        };
+    }
+
+    /**
+     * Checks whether a global shortcut only fails the context check because it is `strict` and a context is active.
+     */
+    private _isBlockedByStrict(config: ShortcutConfig, activeRanks: Map<string, number>): boolean {
+        return !!config.strict && this._getShortcutContexts(config.context).length === 0 && activeRanks.size > 0;
+    }
+
+    private _toTriggerRecord({ shortcut, events }: DispatchCandidate, suppression?: SuppressedCandidate): ShortcutTriggerRecord {
+        const event = events[events.length - 1];
+        const trigger = shortcut.parsedSequence
+            ? sequenceToString(shortcut.parsedSequence)
+            : triggerToString(shortcut.parsedTriggers!.find(parsed => triggerMatchesEvent(parsed, event)) ?? shortcut.parsedTriggers![0]);
+        return {
+            id: shortcut.id,
+            type: shortcut.parsedSequence ? ShortcutTypes.Sequence : ShortcutTypes.Combination,
+            trigger,
+            context: this.getActiveContext(),
+            target: event.target,
+            timestamp: Date.now(),
+            event,
+            suppressed: suppression !== undefined,
+            ...(suppression && { reason: suppression.reason }),
+            ...(suppression?.suppressedBy !== undefined && { suppressedBy: suppression.suppressedBy }),
+            prevented: event.defaultPrevented,
+        };
+    }
+
+    /**
+     * Picks the candidates that fire: only those with the highest priority, and among identical
+     * candidates (same `group`), only those bound to the most specific active context.
+     * A global non-strict candidate is the least specific of all, so any context-bound candidate suppresses it.
+     * @param suppressed - Receives the candidates that do not fire.
+     * @param topCandidate - The top candidate of the event on every target it reaches, if known.
+     */
+    private _resolveCandidates(
+        candidates: DispatchCandidate[],
+        activeRanks: Map<string, number>,
+        suppressed: SuppressedCandidate[],
+        topCandidate: TopCandidate | null = null,
+    ): DispatchCandidate[] {
+        if (candidates.length <= 1 && !topCandidate) {
+            return candidates;
+        }
+        const topPriority = Math.max(topCandidate?.priority ?? -Infinity, ...candidates.map(candidate => candidate.shortcut.config.priority ?? 0));
+        const winners: DispatchCandidate[] = [];
+        for (const candidate of candidates) {
+            const { shortcut } = candidate;
+            if ((shortcut.config.priority ?? 0) < topPriority) {
+                if (this.debugMode) {
+                    console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${shortcut.id}" skipped by a higher-priority shortcut (priority ${topPriority}).`);
+                }
+                const winner = candidates.find(other => (other.shortcut.config.priority ?? 0) === topPriority);
+                suppressed.push({ candidate, reason: "priority", suppressedBy: winner?.shortcut.id ?? topCandidate!.id });
+                continue;
+            }
+            const specificity = this._getContextSpecificity(shortcut.config, activeRanks);
+            const specific = candidates.find(other =>
+                other.group === candidate.group &&
+                (other.shortcut.config.priority ?? 0) === topPriority &&
+                this._getContextSpecificity(other.shortcut.config, activeRanks) < specificity);
+            if (specific) {
+                if (this.debugMode) {
+                    const kind = shortcut.parsedSequence ? "sequence shortcut" : "shortcut";
+                    const scope = shortcut.config.context == null ? "Global" : `Context "${shortcut.config.context}"`;
+                    console.log(`${Hotkeys.LOG_PREFIX} ${scope} ${kind} "${shortcut.id}" (key: "${candidate.events[candidate.events.length - 1].key}") suppressed by more specific context shortcut "${specific.shortcut.id}".`);
+                }
+                suppressed.push({ candidate, reason: "context", suppressedBy: specific.shortcut.id });
+                continue; // Suppress the less specific one
+            }
+            winners.push(candidate);
+        }
+        return winners;
+    }
+
+    /**
+     * Sets a temporary, high-priority override context that takes precedence over the context stack.
+     * @param contextName The override context to activate (can be a string or `null`).
+     * @returns A `restore` function that, when called, clears the override context, reverting to the stack.
+     */
+    public setContext(contextName: string | null): () => void {
+        if (this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Setting override context to: "${contextName}".`);
+        }
+        this.overrideContext$.next(contextName);
+
+        const restore = () => {
+            // Only clear the override if it's still the one we set.
+            if (this.overrideContext$.getValue() === contextName) {
+                if (this.debugMode) {
+                    console.log(`${Hotkeys.LOG_PREFIX} Restoring/clearing override context from: "${contextName}".`);
+                }
+                // Restore now sets the special "NO_OVERRIDE" value.
+                this.overrideContext$.next(Hotkeys.NO_OVERRIDE);
+            }
+        };
+        return restore;
+    }
+
+    /**
+     * @deprecated Rename to `getActiveContext`
+     * Gets the current active context, considering any override.
+     * @returns The current context name as a string, or `null` if no context is set.
+     */
+    public getContext(): string | null {
+        console.warn(`${Hotkeys.LOG_PREFIX} "getContext" is deprecated. Use "getActiveContext()" or subscribe to "onContextChange$" instead.`);
+        return this.getActiveContext();
+    }
+
+    /**
+     * Gets the platform this instance resolves `mod` and per-platform `keys` for.
+     * @returns The platform detected (or injected) when the instance was created.
+     */
+    public getPlatform(): Platform {
+        return this.platform;
+    }
+
+    /**
+     * Gets the current active context, considering any override.
+     * This is the most specific context: shortcuts bound to its ancestors are active too (see `getActiveContextPath`).
+     * @returns The current context name as a string, or `null` if no context is set.
+     */
+    public getActiveContext(): string | null {
+        const overrideCtx = this.overrideContext$.getValue();
+        const stack = this.contextStack$.getValue();
+        const stackCtx = stack.length > 0 ? stack[stack.length - 1] : null;
+        // Also uses the abstracted helper method.
+        return this._resolveActiveContext(overrideCtx, stackCtx);
+    }
+
+    /**
+     * Gets every active context: the override context if one is set, otherwise the top of the context stack,
+     * or every context on the stack (oldest first) when `contextMode` is "multiple".
+     * The ancestors of these contexts are active too, but are not listed.
+     * @returns The active contexts, or an empty array if no context is set.
+     */
+    public getActiveContexts(): string[] {
+        return this._resolveActiveContexts(this.overrideContext$.getValue(), this.contextStack$.getValue());
+    }
+
+    /**
+     * Gets the active context followed by its ancestors, from the most specific to the root.
+     * For example, `["editor.vim.insert", "editor.vim", "editor"]`.
+     * When `contextMode` is "multiple", this is the path of the most recently entered context only.
+     * @returns The context path, or an empty array if no context is set.
+     */
+    public getActiveContextPath(): string[] {
+        return this._getContextPath(this.getActiveContext());
+    }
+
+    /**
+     * Checks whether a context is active, either as an active context or as one of their ancestors.
+     * @param contextName The context to check.
+     */
+    public isContextActive(contextName: string): boolean {
+        return this._getActiveContextRanks().has(contextName);
+    }
+
+    /**
+     * Declares the parent of a context. Shortcuts bound to the parent (and its own ancestors) stay active
+     * in the context, and the most specific binding wins when several match the same keys.
+     * Contexts without a declared parent inherit from their dotted prefix: "editor.vim" is a child of "editor".
+     * @param contextName The child context.
+     * @param parent The parent context, or `null` to remove the declaration.
+     */
+    public defineContext(contextName: string, parent: string | null): void {
+        if (parent == null) {
+            this.contextParents.delete(contextName);
+            return;
+        }
+        if (this._getContextPath(parent).includes(contextName)) {
+            console.error(`${Hotkeys.LOG_PREFIX} Context "${contextName}" cannot have "${parent}" as parent: "${parent}" descends from it. Parent not set.`);
+            return;
+        }
+        this.contextParents.set(contextName, parent);
+        if (this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Context "${contextName}" declared as a child of "${parent}".`);
+        }
+    }
+
+    /**
+     * Resolves a context and its ancestors, from the most specific to the root.
+     */
+    private _getContextPath(contextName: string | null): string[] {
+        const path: string[] = [];
+        let current: string | null = contextName;
+        while (current != null && !path.includes(current)) {
+            path.push(current);
+            const separator = current.lastIndexOf(".");
+            current = this.contextParents.get(current) ?? (separator > 0 ? current.slice(0, separator) : null);
+        }
+        return path;
+    }
+
+    /**
+     * Maps every active context and ancestor to its distance from the closest active context:
+     * 0 for the active contexts themselves, 1 for their parents, and so on.
+     */
+    private _getActiveContextRanks(): Map<string, number> {
+        const ranks = new Map<string, number>();
+        for (const activeContext of this.getActiveContexts()) {
+            this._getContextPath(activeContext).forEach((context, rank) => {
+                ranks.set(context, Math.min(rank, ranks.get(context) ?? Infinity));
+            });
+        }
+        return ranks;
+    }
+
+    /**
+     * Ranks how closely a shortcut is bound to the active contexts (see `_getActiveContextRanks`).
+     * Global shortcuts rank after every context.
+     */
+    private _getContextSpecificity(config: ShortcutConfig, activeRanks: Map<string, number>): number {
+        let specificity = Infinity;
+        for (const context of this._getShortcutContexts(config.context)) {
+            specificity = Math.min(specificity, activeRanks.get(context) ?? Infinity);
+        }
+        return specificity;
+    }
+
+    /**
+     * Pushes a new context onto the context stack. It will become active if no override context is set.
+     * @param contextName The name of the context to enter (e.g., "modal", "editor").
+     */
+    public enterContext(contextName: string | null): void {
+        const currentStack = this.contextStack$.getValue();
+        const newStack = [...currentStack, contextName];
+        if (this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Entering context: "${contextName}". New stack: [${newStack.join(", ")}]`);
+        }
         this.contextStack$.next(newStack);
     }
 
     /**
      * Pops the current context from the stack.
-     * @returns The context that was just left from the stack, or `undefined` if at the base.
+     * @param contextName Optional. Leaves the most recent entry of this context instead of the top of the stack,
+     * e.g. when panels entered in `"multiple"` context mode close in any order.
+     * @returns The context that was just left from the stack, or `undefined` if at the base or not on the stack.
      */
-    public leaveContext(): string | null | undefined {
+    public leaveContext(contextName?: string | null): string | null | undefined {
         const currentStack = this.contextStack$.getValue();
-        if (currentStack.length <= 1) {
+        const index = contextName === undefined ? currentStack.length - 1 : currentStack.lastIndexOf(contextName);
+        if (index < 0) {
+            if (this.debugMode) {
+                console.log(`${Hotkeys.LOG_PREFIX} Attempted to leave context "${contextName}", which is not on the stack. No change made.`);
+            }
+            return undefined;
+        }
+        if (index === 0) {
             if (this.debugMode) {
                 console.log(`${Hotkeys.LOG_PREFIX} Attempted to leave the base stack context. No change made.`);
             }
             return undefined; // Nothing was left
         }
 
-        const leavingContext = currentStack[currentStack.length - 1];
-        const newStack = currentStack.slice(0, -1);
+        const leavingContext = currentStack[index];
+        const newStack = [...currentStack.slice(0, index), ...currentStack.slice(index + 1)];
 
         if (this.debugMode) {
             console.log(`${Hotkeys.LOG_PREFIX} Leaving context: "${leavingContext}". New stack: [${newStack.join(", ")}]`);
@@ -431,6 +1424,35 @@ export class Hotkeys {
         return leavingContext;
     }
 
+    /**
+     * Sets a context key, for the `when` clauses of shortcuts to test.
+     * @param key The name of the key, e.g. "editorFocus".
+     * @param value The new value. `undefined` removes the key.
+     */
+    public setContextKey(key: string, value: ContextKeyValue): void {
+        const previousValue = this.contextKeys.get(key);
+        if (Object.is(previousValue, value)) {
+            return;
+        }
+        if (value === undefined) {
+            this.contextKeys.delete(key);
+        } else {
+            this.contextKeys.set(key, value);
+        }
+        if (this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Context key "${key}" set to: ${JSON.stringify(value)}.`);
+        }
+        this.contextKeyChangeSubject$.next({ key, value, previousValue });
+    }
+
+    /**
+     * Gets the value of a context key.
+     * @returns The value, or `undefined` if the key is not set.
+     */
+    public getContextKey(key: string): ContextKeyValue {
+        return this.contextKeys.get(key);
+    }
+
     /**
      * Enables or disables debug logging for the Hotkeys instance.
      * When enabled, various internal actions and shortcut triggers will be logged to the console.
@@ -459,6 +1481,8 @@ export class Hotkeys {
 
     /**
      * An Observable that emits the new context name (or null) whenever the active context changes.
+     * Moving between a context and one of its descendants is a change too; use `getActiveContextPath()`
+     * or `isContextActive()` to find the inherited contexts.
      *
      * @example
      * ```typescript
@@ -476,124 +1500,476 @@ export class Hotkeys {
     }
 
     /**
-     * Compares two sequences of StandardKey arrays to see if they are identical.
-     * @param seq1 - The first sequence array.
-     * @param seq2 - The second sequence array.
-     * @returns True if the sequences are identical, false otherwise.
+     * An Observable that emits each change of a context key made with `setContextKey`.
+     *
+     * @example
+     * ```typescript
+     * hotkeys.onContextKeyChange$.subscribe(({ key, value }) => console.log(`${key} is now`, value));
+     * hotkeys.setContextKey("readOnly", true); // readOnly is now true
+     * ```
      */
-    private _areSequencesIdentical(seq1: StandardKey[], seq2: StandardKey[]): boolean {
-        if (seq1.length !== seq2.length) {
-            return false;
-        }
-        for (let i = 0; i < seq1.length; i++) {
-            if (seq1[i] !== seq2[i]) { // Direct comparison for canonical StandardKey values
-                return false;
-            }
-        }
-        return true;
+    public get onContextKeyChange$(): Observable<ContextKeyChange> {
+        return this.contextKeyChangeSubject$.asObservable();
     }
 
     /**
-     * Checks if a given KeyCombinationConfig matches a given KeyboardEvent.
-     * This is used internally for priority checking.
-     * @param shortcutConfig The KeyCombinationConfig to check.
-     * @param event The KeyboardEvent to match against.
-     * @returns True if the shortcutConfig matches the event, false otherwise.
+     * An Observable that emits every active context (see `getActiveContexts()`) whenever the set changes.
+     * Emits the current contexts on subscription.
+     *
+     * @example
+     * ```typescript
+     * const hotkeys = new Hotkeys(null, false, { contextMode: "multiple" });
+     * hotkeys.activeContexts$.subscribe(contexts => console.log("Active panels:", contexts));
+     * hotkeys.enterContext("sidebar");
+     * hotkeys.enterContext("terminal"); // Active panels: ["sidebar", "terminal"]
+     * hotkeys.leaveContext("sidebar");  // Active panels: ["terminal"]
+     * ```
      */
-    private _shortcutMatchesEvent(parsedTriggers: ParsedTrigger[], event: KeyboardEvent): boolean {
-        // It no longer does any parsing. It just compares against the pre-parsed triggers.
-        for (const trigger of parsedTriggers) {
-            const keyMatch = compareKey(event.key, trigger.key);
-            if (!keyMatch) continue;
+    public get activeContexts$(): Observable<string[]> {
+        return this.activeContextList$;
+    }
 
-            if (event.ctrlKey === trigger.ctrlKey &&
-                event.altKey === trigger.altKey &&
-                event.shiftKey === trigger.shiftKey &&
-                event.metaKey === trigger.metaKey) {
-                return true;
-            }
-        }
-        return false;
+    /**
+     * An Observable of the key sequence the user is typing: the steps pressed so far, the shortcuts
+     * that can still complete it (with their remaining keys), and the time left before it resets.
+     * Emits the current state on subscription, and an empty state when the sequence is completed,
+     * times out, or is broken by a non-matching key.
+     *
+     * @example
+     * ```typescript
+     * hotkeys.sequenceProgress$.subscribe(({ keys, candidates }) => {
+     *   statusBar.textContent = keys.length > 0
+     *     ? `${keys.join(" ")} … ${candidates.map(c => c.remainingKeys.join(" ")).join(" | ")}`
+     *     : "";
+     * });
+     * ```
+     */
+    public get sequenceProgress$(): Observable<SequenceProgress> {
+        return defer(() => {
+            // Progress is only tracked while observed, so bring it up to date for the new subscriber.
+            this._updateSequenceProgress(true);
+            return this.sequenceProgressSubject$.asObservable();
+        });
     }
 
-    private filterByContext(source$: Observable<KeyboardEvent>, context: string | null | undefined, strict: boolean): Observable<KeyboardEvent> {
-        return source$.pipe(
-            withLatestFrom(this.activeContext$),
-            filter(([/* event */, activeCtx]) => {
-                if (context == null) {
-                    if (strict) {
-                        return activeCtx == null;
-                    } else {
-                        return true;
-                    }
-                } else {
-                    return context === activeCtx;
-                }
-            }),
-            map(([event, /* _activeCtx */]) => event),
-        );
+    /**
+     * An Observable of every shortcut matched by a key press, whichever Observable it was added with:
+     * those that fire, and those suppressed by a shortcut that takes precedence or by the `strict` flag
+     * (see `onSuppressed$`). Each record has the ID, type and matched keys of the shortcut, the active context,
+     * the event target, a timestamp, and whether the shortcut was suppressed and the event's default prevented.
+     * Disabled shortcuts, those in inactive contexts or with an unmet `when` clause, and key presses while
+     * paused or recording are not recorded. A combination held by `holdAmbiguousCombinations` is recorded
+     * when it matches, even if a sequence later drops it.
+     *
+     * @example
+     * ```typescript
+     * hotkeys.onTrigger$.pipe(filter(record => !record.suppressed)).subscribe(({ id, trigger, context }) => {
+     *   analytics.track("shortcut", { id, trigger, context });
+     * });
+     * ```
+     */
+    public get onTrigger$(): Observable<ShortcutTriggerRecord> {
+        return this.triggerSubject$.asObservable();
     }
 
-    private _registerShortcut(
-        config: ShortcutConfig,
-        terminator$: Subject<void>,
-        type: ShortcutTypes,
-        detailsForLog: string,
-        parsedTriggers?: ParsedTrigger[]
-    ): void {
-        const existingShortcut = this.activeShortcuts.get(config.id);
-        if (existingShortcut) {
-            console.warn(`${Hotkeys.LOG_PREFIX} Shortcut with ID "${config.id}" already exists. The old instance will be terminated and overwritten.`);
-            existingShortcut.terminator$.next();
-            existingShortcut.terminator$.complete();
-        }
-        this.activeShortcuts.set(config.id, { id: config.id, config, terminator$, parsedTriggers });
-        if (this.debugMode) {
-            console.log(`${Hotkeys.LOG_PREFIX} ${type} shortcut "${config.id}" added. ${detailsForLog}, Context: ${config.context ?? "any"}`);
-        }
+    /**
+     * An Observable of the shortcuts that matched a key press but did not fire (see `onTrigger$`), with the `reason`:
+     * an identical shortcut in a more specific active context or with a higher `priority` fired instead
+     * (its ID is in `suppressedBy`), or the shortcut is `strict` and a context is active.
+     *
+     * @example
+     * ```typescript
+     * hotkeys.onSuppressed$.subscribe(({ id, reason, suppressedBy }) => console.debug(`${id} suppressed (${reason}) by ${suppressedBy}`));
+     * ```
+     */
+    public get onSuppressed$(): Observable<ShortcutTriggerRecord> {
+        return this.triggerSubject$.pipe(filter(record => record.suppressed));
     }
 
     /**
-     * Parses a single key trigger definition (either shorthand StandardKey or an object with modifiers)
-     * into its constituent parts: main key and modifier states.
+     * Checks whether a shortcut with the given context settings may fire in the active contexts.
+     */
+    private _isContextAllowed(config: ShortcutConfig, activeRanks: Map<string, number>): boolean {
+        const contexts = this._getShortcutContexts(config.context);
+        if (contexts.length === 0) {
+            return config.strict ? activeRanks.size === 0 : true;
+        }
+        return contexts.some(context => activeRanks.has(context));
+    }
+
+    /**
+     * Evaluates the `when` clause of a shortcut against the context keys. Shortcuts without one always pass.
+     */
+    private _isWhenSatisfied(shortcut: ActiveShortcut): boolean {
+        return !shortcut.when || evaluateWhenClause(shortcut.when, key => this.contextKeys.get(key));
+    }
+
+    /**
+     * Parses the `when` clause of a shortcut config.
+     * @returns The expression tree, `undefined` if the config has no clause, or null if the clause is invalid.
+     */
+    private _parseWhen(config: ShortcutConfig): WhenExpression | null | undefined {
+        if (config.when == null) {
+            return undefined;
+        }
+        try {
+            return parseWhenClause(config.when);
+        } catch (error) {
+            if (error instanceof WhenClauseSyntaxError) {
+                console.error(`${Hotkeys.LOG_PREFIX} Invalid "when" clause for shortcut "${config.id}": ${error.message} Shortcut not added.`);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Normalizes the `context` of a shortcut to a list. An empty list means the shortcut is global.
+     */
+    private _getShortcutContexts(context: ShortcutConfig["context"]): string[] {
+        if (context == null) {
+            return [];
+        }
+        return Array.isArray(context) ? context : [context];
+    }
+
+    /**
+     * Checks whether an event may trigger a shortcut.
+     * Events that are part of an IME composition are ignored unless the shortcut sets `enableDuringComposition`.
+     * Events from editable elements are ignored unless the shortcut (or the manager) enables them,
+     * the key is one of the `editableExceptions`, or the element is the shortcut's own `target`.
+     */
+    private _isEventAllowed(config: ShortcutConfig, event: KeyboardEvent): boolean {
+        if (!config.enableDuringComposition && this._isComposing(event, config.target ?? document)) {
+            if (this.debugMode) {
+                console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${config.id}" (key: "${event.key}") ignored during IME composition.`);
+            }
+            return false;
+        }
+        const origin = getEventOrigin(event);
+        const kind = getEditableKind(origin);
+        if (kind == null || (config.target != null && origin === config.target)) {
+            return true;
+        }
+        if (this.editableExceptions.some(key => compareKey(event.key, key))) {
+            return true;
+        }
+        let allowed: boolean;
+        if (kind === "contenteditable") {
+            allowed = config.enableOnContentEditable ?? this.enableOnContentEditable;
+        } else {
+            const formTags = config.enableOnFormTags ?? this.enableOnFormTags;
+            allowed = Array.isArray(formTags) ? formTags.includes(kind) : formTags;
+        }
+        if (!allowed && this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${config.id}" (key: "${event.key}") ignored in editable element (${kind}).`);
+        }
+        return allowed;
+    }
+
+    /**
+     * Gets the shortcut of a sequence entry if it may fire in the active context for the given events.
+     */
+    private _getEligibleSequence(entry: SequenceEntry, activeRanks: Map<string, number>, events: KeyboardEvent[]): ActiveShortcut | undefined {
+        const shortcut = this.activeShortcuts.get(entry.id);
+        if (!shortcut?.enabled || !this._isContextAllowed(shortcut.config, activeRanks) || !this._isWhenSatisfied(shortcut)) {
+            return undefined;
+        }
+        return events.every(event => this._isEventAllowed(shortcut.config, event)) ? shortcut : undefined;
+    }
+
+    /**
+     * Holds back combination matches whose key may start a sequence that is allowed in the active context.
+     * A held event is emitted when the next keystroke does not continue any such sequence, or when
+     * the longest timeout among those sequences (or `ambiguityTimeoutMs`) expires. It is dropped
+     * if the next keystroke continues a sequence. The emitted value is always the original event.
+     */
+    private _holdAmbiguous(
+        matches$: Observable<KeyboardEvent>,
+        dispatcher: StreamDispatcher,
+        id: string,
+        preventDefault: boolean,
+    ): Observable<KeyboardEvent> {
+        const { sequenceTrie } = dispatcher;
+        return new Observable<KeyboardEvent>(subscriber => {
+            let held: { event: KeyboardEvent; timer: ReturnType<typeof setTimeout> } | null = null;
+
+            const release = (emit: boolean, reason: string) => {
+                if (!held) return;
+                const { event, timer } = held;
+                held = null;
+                clearTimeout(timer);
+                dispatcher.heldCombinations.delete(settle);
+                // The shortcut may have been disabled, or the manager paused or recording, while the event was held.
+                if (emit && (this.paused || this.activeRecordings > 0 || this.activeShortcuts.get(id)?.enabled === false)) {
+                    emit = false;
+                    reason = this.paused ? "paused" : this.activeRecordings > 0 ? "recording" : "disabled";
+                }
+                if (this.debugMode) {
+                    console.log(`${Hotkeys.LOG_PREFIX} Held combination "${id}" ${emit ? "released" : "dropped"}: ${reason}.`);
+                }
+                if (emit) subscriber.next(event);
+            };
+
+            // Called by `_dispatch` with the next keystroke, before it is dispatched.
+            const settle = (event: KeyboardEvent) => {
+                if (!held || isModifierKey(event.key)) return;
+                const activeRanks = this._getActiveContextRanks();
+                const continued = sequenceTrie.getSequencesContinuing(held.event, event)
+                    .some(entry => this._getEligibleSequence(entry, activeRanks, [held!.event, event]));
+                if (continued) {
+                    release(false, `"${event.key}" continues a sequence`);
+                } else {
+                    release(true, `"${event.key}" does not continue a sequence`);
+                }
+            };
+
+            const subscription = matches$.subscribe({
+                next: event => {
+                    // Only one event is held at a time: an earlier one is released first, with its timer.
+                    release(true, `"${event.key}" does not continue a sequence`);
+                    const activeRanks = this._getActiveContextRanks();
+                    const candidates = sequenceTrie.getSequencesStartingWith(event)
+                        .filter(entry => this._getEligibleSequence(entry, activeRanks, [event]));
+                    if (candidates.length === 0) {
+                        subscriber.next(event);
+                        return;
+                    }
+                    const timeoutMs = candidates.every(entry => entry.timeoutMs > 0)
+                        ? Math.max(...candidates.map(entry => entry.timeoutMs))
+                        : this.ambiguityTimeoutMs;
+                    // The default action can only be prevented while the event is being dispatched.
+                    if (preventDefault) event.preventDefault();
+                    if (this.debugMode) {
+                        console.log(`${Hotkeys.LOG_PREFIX} Combination "${id}" held for ${timeoutMs}ms: "${event.key}" may start sequence(s) ${candidates.map(entry => `"${entry.id}"`).join(", ")}.`);
+                    }
+                    held = { event, timer: setTimeout(() => release(true, "timed out"), timeoutMs) };
+                    dispatcher.heldCombinations.add(settle);
+                },
+                error: err => subscriber.error(err),
+                complete: () => subscriber.complete(),
+            });
+
+            return () => {
+                if (held) clearTimeout(held.timer);
+                held = null;
+                dispatcher.heldCombinations.delete(settle);
+                subscription.unsubscribe();
+            };
+        });
+    }
+
+    /**
+     * Resets the sequences in progress, except those that opted out of the given reason.
+     */
+    private _resetSequences(reason: SequenceResetReason): void {
+        const option = SEQUENCE_RESET_OPTIONS[reason];
+        let changed = false;
+        for (const { sequenceTrie } of this.liveDispatchers) {
+            changed = sequenceTrie.reset(entry => {
+                const config = this.activeShortcuts.get(entry.id)?.config as KeySequenceConfig | undefined;
+                return config?.[option] !== false;
+            }) || changed;
+        }
+        if (changed && this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Sequences in progress reset (reason: ${reason}).`);
+        }
+        // Candidates depend on the active context even when nothing was reset.
+        this._updateSequenceProgress();
+    }
+
+    /**
+     * Recomputes `sequenceProgress$` after the state of a trie has changed.
+     * When several tries have sequences in progress, the deepest one is reported.
+     * Nothing is computed while `sequenceProgress$` has no subscribers, unless `force` is set.
+     */
+    private _updateSequenceProgress(force = false): void {
+        if (this.sequenceProgressSubject$.closed) {
+            return;
+        }
+        if (!force && !this.sequenceProgressSubject$.observed) {
+            if (this.sequenceProgressTimer != null) {
+                clearTimeout(this.sequenceProgressTimer);
+                this.sequenceProgressTimer = null;
+            }
+            return;
+        }
+        const currentTime = performance.now();
+        const activeRanks = this._getActiveContextRanks();
+        let best: { pending: PendingSequences; entries: SequenceEntry[] } | null = null;
+
+        for (const { sequenceTrie } of this.liveDispatchers) {
+            const pending = sequenceTrie.getPending();
+            const entries = pending?.entries.filter(entry =>
+                this._getEligibleSequence(entry, activeRanks, pending.events) &&
+                (!(entry.timeoutMs > 0) || currentTime - pending.lastTime <= entry.timeoutMs)
+            ) ?? [];
+            if (!pending || entries.length === 0) {
+                continue;
+            }
+            if (!best || pending.depth > best.pending.depth) {
+                best = { pending, entries };
+            }
+        }
+
+        if (this.sequenceProgressTimer != null) {
+            clearTimeout(this.sequenceProgressTimer);
+            this.sequenceProgressTimer = null;
+        }
+        if (!best) {
+            if (this.sequenceProgressSubject$.value !== EMPTY_SEQUENCE_PROGRESS) {
+                this.sequenceProgressSubject$.next(EMPTY_SEQUENCE_PROGRESS);
+            }
+            return;
+        }
+
+        const { pending, entries } = best;
+        let timeLeftMs: number | null = null;
+        if (entries.every(entry => entry.timeoutMs > 0)) {
+            timeLeftMs = Math.max(...entries.map(entry => entry.timeoutMs)) - (currentTime - pending.lastTime);
+            // Recompute once the longest timeout has passed, so the expiry is reported without waiting for the next key.
+            this.sequenceProgressTimer = setTimeout(() => {
+                this.sequenceProgressTimer = null;
+                if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Sequence in progress timed out.`);
+                this._updateSequenceProgress();
+            }, timeLeftMs + 1);
+        }
+        this.sequenceProgressSubject$.next({
+            keys: entries[0].steps.slice(0, pending.depth).map(triggerToString),
+            candidates: entries.map(entry => ({
+                id: entry.id,
+                description: this.activeShortcuts.get(entry.id)?.config.description,
+                remainingKeys: entry.steps.slice(pending.depth).map(triggerToString),
+            })),
+            timeLeftMs,
+        });
+    }
+
+    private _registerShortcut(
+        shortcut: ActiveShortcut,
+        type: ShortcutTypes,
+        detailsForLog: string,
+    ): void {
+        const { config } = shortcut;
+        const existingShortcut = this.activeShortcuts.get(config.id);
+        if (existingShortcut) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Shortcut with ID "${config.id}" already exists. The old instance will be terminated and overwritten.`);
+            this._terminateShortcut(existingShortcut);
+        }
+        this.activeShortcuts.set(config.id, shortcut);
+        if (this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} ${type} shortcut "${config.id}" added. ${detailsForLog}, Context: ${config.context ?? "any"}`);
+        }
+        this.shortcutChangeSubject$.next();
+    }
+
+    /**
+     * Applies the `onConflict` policy to a shortcut about to be registered (or rebound).
+     * @returns False if the shortcut must not be added (or rebound).
+     */
+    private _checkConflicts(shortcut: ActiveShortcut, action: "added" | "rebound" = "added"): boolean {
+        if (this.onConflict === "ignore") {
+            return true;
+        }
+        const others = [...this.activeShortcuts.values()].map(other => this._toConflictSubject(other));
+        const conflicts = findConflicts(this._toConflictSubject(shortcut), others, (a, b) => this._contextsOverlap(a, b));
+        if (conflicts.length === 0) {
+            return true;
+        }
+        const details = conflicts.map(describeConflict).join("; ");
+        if (this.onConflict === "error") {
+            console.error(`${Hotkeys.LOG_PREFIX} Shortcut "${shortcut.id}" conflicts with registered shortcuts: ${details}. Shortcut not ${action}.`);
+            return false;
+        }
+        console.warn(`${Hotkeys.LOG_PREFIX} Shortcut "${shortcut.id}" conflicts with registered shortcuts: ${details}.`);
+        return true;
+    }
+
+    private _toConflictSubject(shortcut: ActiveShortcut): ConflictSubject {
+        return {
+            id: shortcut.id,
+            context: shortcut.config.context ?? null,
+            when: shortcut.config.when,
+            stream: shortcut.dispatcher,
+            triggers: shortcut.parsedTriggers,
+            sequence: shortcut.parsedSequence,
+        };
+    }
+
+    /**
+     * Checks whether two shortcut contexts can both fire for the same event.
+     * A shortcut in a more specific context overrides one in an ancestor context or a global one
+     * (see `_resolveCandidates`), so that is not a conflict. In `"multiple"` context mode,
+     * unrelated contexts can be active at the same time, so they overlap.
+     */
+    private _contextsOverlap(a: ShortcutConfig["context"], b: ShortcutConfig["context"]): boolean {
+        const contextsA = this._getShortcutContexts(a);
+        const contextsB = this._getShortcutContexts(b);
+        if (contextsA.length === 0 || contextsB.length === 0) {
+            return contextsA.length === contextsB.length;
+        }
+        return contextsA.some(contextA => contextsB.some(contextB =>
+            contextA === contextB ||
+            (this.contextMode === "multiple" &&
+                !this._getContextPath(contextA).includes(contextB) &&
+                !this._getContextPath(contextB).includes(contextA))
+        ));
+    }
+
+    /**
+     * Completes the observable of a shortcut and detaches it from its dispatcher.
+     */
+    private _terminateShortcut(shortcut: ActiveShortcut): void {
+        this._detachShortcut(shortcut);
+        shortcut.matches$?.complete();
+        shortcut.terminator$.next();
+        shortcut.terminator$.complete();
+    }
+
+    /**
+     * Parses a single key trigger definition (either shorthand StandardKey, a bracketed code,
+     * or an object with modifiers) into its canonical form.
      * @param keyInput - The KeyCombinationTrigger to parse.
      * @param shortcutId - The ID of the shortcut this key trigger belongs to (for logging).
-     * @returns An object containing configuredMainKey and modifier states, or null if parsing fails.
-     */
-    private _parseKeyTrigger(keyInput: KeyCombinationTrigger, shortcutId: string): {
-        configuredMainKey: StandardKey;
-        ctrlKeyConfig?: boolean;
-        altKeyConfig?: boolean;
-        shiftKeyConfig?: boolean;
-        metaKeyConfig?: boolean;
-    } | null {
+     * @returns The parsed trigger with explicit modifier states, or null if parsing fails.
+     */
+    private _parseKeyTrigger(keyInput: KeyCombinationTrigger, shortcutId: string): ParsedTrigger | null {
+        const noModifiers = { ctrlKey: false, altKey: false, shiftKey: false, metaKey: false };
         if (typeof keyInput === "string") {
+            if (isCodeToken(keyInput)) {
+                const finalCode = normalizeCode(keyInput);
+                if (!finalCode) {
+                    console.warn(`${Hotkeys.LOG_PREFIX} Could not parse code: "${keyInput}" in shortcut "${shortcutId}".`);
+                    return null;
+                }
+                return { code: finalCode, ...noModifiers };
+            }
             const finalKey = normalizeKey(keyInput);
             if (!finalKey) {
                 console.warn(`${Hotkeys.LOG_PREFIX} Could not parse key: "${keyInput}" in shortcut "${shortcutId}".`);
                 return null;
             }
-            return {
-                configuredMainKey: finalKey,
-                ctrlKeyConfig: false,
-                altKeyConfig: false,
-                shiftKeyConfig: false,
-                metaKeyConfig: false,
-            };
-        } else {
-            if (!keyInput.key || typeof keyInput.key !== "string" || (keyInput.key as string) === "") {
-                console.warn(`${Hotkeys.LOG_PREFIX} Invalid "key" property in shortcut "${shortcutId}". Key must be a non-empty string value from Keys.`);
+            return { key: finalKey, ...noModifiers };
+        }
+
+        const modifiers = {
+            ctrlKey: !!keyInput.ctrlKey,
+            altKey: !!keyInput.altKey,
+            shiftKey: !!keyInput.shiftKey,
+            metaKey: !!keyInput.metaKey,
+        };
+        if ("code" in keyInput) {
+            if (!keyInput.code || typeof keyInput.code !== "string" || !(Object.values(Codes) as string[]).includes(keyInput.code)) {
+                console.warn(`${Hotkeys.LOG_PREFIX} Invalid "code" property in shortcut "${shortcutId}". Code must be a string value from Codes.`);
                 return null;
             }
-
-            return {
-                configuredMainKey: keyInput.key,
-                ctrlKeyConfig: keyInput.ctrlKey,
-                altKeyConfig: keyInput.altKey,
-                shiftKeyConfig: keyInput.shiftKey,
-                metaKeyConfig: keyInput.metaKey,
-            };
+            return { code: keyInput.code, ...modifiers };
         }
+        if (!keyInput.key || typeof keyInput.key !== "string" || (keyInput.key as string) === "") {
+            console.warn(`${Hotkeys.LOG_PREFIX} Invalid "key" property in shortcut "${shortcutId}". Key must be a non-empty string value from Keys.`);
+            return null;
+        }
+        return { key: keyInput.key, ...modifiers };
     }
 
     private _parseCombinationString(shortcut: string): KeyCombinationTrigger[] {
@@ -605,41 +1981,33 @@ export class Hotkeys {
             return [];
         }
 
-        const trigger: { key: StandardKey, ctrlKey?: boolean, altKey?: boolean, shiftKey?: boolean, metaKey?: boolean } = {
-            key: "" as StandardKey,
-            ctrlKey: false, altKey: false, shiftKey: false, metaKey: false
-        };
-
-        const finalKey = normalizeKey(mainKeyStr);
-        if (!finalKey) {
-             console.warn(`${Hotkeys.LOG_PREFIX} Could not parse key: "${mainKeyStr}" in shortcut string "${shortcut}".`);
-            return [];
-        }
-        trigger.key = finalKey;
-
+        const modifiers = { ctrlKey: false, altKey: false, shiftKey: false, metaKey: false };
         for (const part of parts) {
-            if (part === "ctrl" || part === "control") trigger.ctrlKey = true;
-            else if (part === "alt" || part === "option") trigger.altKey = true;
-            else if (part === "shift") trigger.shiftKey = true;
-            else if (part === "meta" || part === "cmd" || part === "command" || part === "win") trigger.metaKey = true;
+            if (part === "ctrl" || part === "control") modifiers.ctrlKey = true;
+            else if (part === "alt" || part === "option") modifiers.altKey = true;
+            else if (part === "shift") modifiers.shiftKey = true;
+            else if (part === "meta" || part === "cmd" || part === "command" || part === "win") modifiers.metaKey = true;
+            else if (part === "mod") modifiers[this.platform === "mac" ? "metaKey" : "ctrlKey"] = true;
             else console.warn(`${Hotkeys.LOG_PREFIX} Unknown modifier: "${part}" in shortcut string "${shortcut}".`);
         }
-        return [trigger];
-    }
 
-    private _parseSequenceString(sequence: string): StandardKey[] {
-        const keyStrings = sequence.split("->").map(k => k.trim());
-        const results: StandardKey[] = [];
-        for (const keyStr of keyStrings) {
-            const finalKey = normalizeKey(keyStr);
-            if (finalKey) {
-                results.push(finalKey);
-            } else {
-                console.warn(`${Hotkeys.LOG_PREFIX} Could not parse key: "${keyStr}" in sequence string "${sequence}".`);
-                return []; // Fail fast
+        let trigger: KeyCombinationTrigger;
+        if (isCodeToken(mainKeyStr)) {
+            const finalCode = normalizeCode(mainKeyStr);
+            if (!finalCode) {
+                console.warn(`${Hotkeys.LOG_PREFIX} Could not parse code: "${mainKeyStr}" in shortcut string "${shortcut}".`);
+                return [];
             }
+            trigger = { code: finalCode, ...modifiers };
+        } else {
+            const finalKey = normalizeKey(mainKeyStr);
+            if (!finalKey) {
+                console.warn(`${Hotkeys.LOG_PREFIX} Could not parse key: "${mainKeyStr}" in shortcut string "${shortcut}".`);
+                return [];
+            }
+            trigger = { key: finalKey, ...modifiers };
         }
-        return results;
+        return [trigger];
     }
 
     /**
@@ -679,6 +2047,11 @@ export class Hotkeys {
      * ```
      */
     public addCombination(config: KeyCombinationConfig): Observable<KeyboardEvent> {
+        const defaultConfig = config;
+        const userKeys = this._getUserKeys(config.id, keys => this._normalizeAndParseTriggers(keys as KeyCombinationConfig["keys"], config.id).length > 0);
+        if (userKeys !== undefined) {
+            config = { ...config, keys: userKeys as KeyCombinationConfig["keys"] };
+        }
         const { keys, context, preventDefault = false, id, strict = false, target = document, event: eventType = "keydown", options } = config;
 
         if (context != null && strict) {
@@ -692,57 +2065,20 @@ export class Hotkeys {
             return EMPTY;
         }
 
-        const sourceStream$ = this._getEventStream(eventType, target, options);
-        const observables: Observable<KeyboardEvent>[] = [];
-
-        for (const trigger of parsedTriggers) {
-            const stream = this.filterByContext(sourceStream$, context, strict).pipe(
-                filter(event => {
-                   return event.ctrlKey === trigger.ctrlKey &&
-                          event.altKey === trigger.altKey &&
-                          event.shiftKey === trigger.shiftKey &&
-                          event.metaKey === trigger.metaKey;
-                }),
-                filter(event => compareKey(event.key, trigger.key)),
-                // New filter for priority: Specific context > Global context
-                withLatestFrom(this.activeContext$),
-                filter(([event, activeCtx]) => {
-                    if (context != null || strict) { // This shortcut is NOT global or strict
-                        return true;
-                    }
-                    // This shortcut IS global. Check for specific overrides.
-                    if (activeCtx == null) { // No specific context active
-                        return true;
-                    }
-
-                    for (const [, otherAS] of this.activeShortcuts) {
-                        if (otherAS.config.id !== id &&
-                            "keys" in otherAS.config &&
-                            otherAS.config.context === activeCtx &&
-                            this._shortcutMatchesEvent(otherAS.parsedTriggers ?? [], event)) {
-                            if (this.debugMode) {
-                                console.log(`${Hotkeys.LOG_PREFIX} Global shortcut "${id}" (key: "${event.key}") suppressed by specific context shortcut "${otherAS.config.id}".`);
-                            }
-                            return false; // Suppress global
-                        }
-                    }
-                    return true; // Global can proceed
-                }),
-                map(([event]) => event)
-            );
-            observables.push(stream);
-        }
-
-        if (observables.length === 0) {
-            // This path should now be much harder to hit, but remains a safeguard.
-            console.warn(`${Hotkeys.LOG_PREFIX} No valid key triggers for combination shortcut "${id}". Shortcut not added.`);
+        const when = this._parseWhen(config);
+        if (when === null) {
             return EMPTY;
         }
 
         const terminator$ = new Subject<void>();
-        const finalShortcut$ = merge(...observables);
+        const matches$ = new Subject<KeyboardEvent[]>();
+        const dispatcher = this._getDispatcher(eventType, target, options);
+        const events$ = matches$.pipe(map(([event]) => event));
+        const finalShortcut$ = this.holdAmbiguousCombinations
+            ? this._holdAmbiguous(events$, dispatcher, id, preventDefault)
+            : events$;
         const logParts = parsedTriggers.map(t => {
-            const parts: string[] = [`key: "${t.key}"`];
+            const parts: string[] = [t.code != null ? `code: "${t.code}"` : `key: "${t.key}"`];
             if (t.ctrlKey) parts.push("ctrl: true");
             if (t.altKey) parts.push("alt: true");
             if (t.shiftKey) parts.push("shift: true");
@@ -756,9 +2092,14 @@ export class Hotkeys {
         });
         const logDetails = `Triggers: [ ${logParts.join(", ")} ]`;
 
-        this._registerShortcut(config, terminator$, ShortcutTypes.Combination, logDetails, parsedTriggers);
+        const shortcut: ActiveShortcut = { id, config, terminator$, parsedTriggers, dispatcher, matches$, when, enabled: !this.keymapOverrides.get(id)?.disabled, defaultConfig };
+        if (!this._checkConflicts(shortcut)) {
+            return EMPTY;
+        }
+        this._registerShortcut(shortcut, ShortcutTypes.Combination, logDetails);
+        this._attachShortcut(dispatcher, shortcut);
 
-        return finalShortcut$.pipe(
+        const shortcut$ = finalShortcut$.pipe(
             tap(event => {
                 if (this.debugMode) {
                     const preventAction = preventDefault ? ", preventing default" : "";
@@ -772,6 +2113,8 @@ export class Hotkeys {
             }),
             takeUntil(terminator$)
         );
+        this._bindCommand(shortcut, shortcut$);
+        return shortcut$;
     }
 
     /**
@@ -780,7 +2123,7 @@ export class Hotkeys {
      * An optional timeout can be specified for the time allowed between key presses in the sequence.
      * @param config - Configuration object for the key sequence.
      * See {@link KeySequenceConfig} for details.
-     * Each key in the `sequence` array must be a value from the `Keys` object.
+     * Each step in the `sequence` array is a trigger (a value from `Keys`, or an object with modifiers).
      * Or using string for `sequence`.
      * @returns An `Observable<KeyboardEvent>` that you can subscribe to. The stream will be automatically
      * completed if the shortcut is removed via `remove(id)` or `destroy()`, or if it's overwritten.
@@ -804,8 +2147,17 @@ export class Hotkeys {
      * });
      * konami$.subscribe(event => console.log("Konami!", event));
      * ```
+     * ```typescript
+     * // VS Code-style chord: Ctrl+K followed by Ctrl+S
+     * const keymap$ = keyManager.addSequence({ id: "openKeymap", sequence: "ctrl+k -> ctrl+s" });
+     * ```
      */
     public addSequence(config: KeySequenceConfig): Observable<KeyboardEvent> {
+        const defaultConfig = config;
+        const userKeys = this._getUserKeys(config.id, keys => (this._normalizeSequence(keys as KeySequenceConfig["sequence"], config.id)?.length ?? 0) > 0);
+        if (userKeys !== undefined) {
+            config = { ...config, sequence: userKeys as KeySequenceConfig["sequence"] };
+        }
         const { sequence, context, preventDefault = false, id, sequenceTimeoutMs, strict = false, target = document, event: eventType = "keydown", options } = config;
 
         const configuredSequence = this._normalizeSequence(sequence, id);
@@ -819,102 +2171,24 @@ export class Hotkeys {
              console.warn(`${Hotkeys.LOG_PREFIX} Shortcut "${id}" has both a context and the "strict" flag. The "strict" flag will be ignored.`);
         }
 
-        const sequenceLength = configuredSequence.length;
-        let shortcut$: Observable<KeyboardEvent[]>;
-        const sourceStream$ = this._getEventStream(eventType, target, options);
-        const baseKeydownStream$ = this.filterByContext(sourceStream$, context, strict);
-
-        if (sequenceTimeoutMs && sequenceTimeoutMs > 0) {
-            shortcut$ = baseKeydownStream$.pipe(
-                scan<KeyboardEvent, SequenceScanState>(
-                    (acc, event) => {
-                        let { matchedEvents, lastEventTime } = acc;
-                        const currentTime = performance.now();
-
-                        if (acc.emitState === EmitStates.Emit) {
-                            matchedEvents = [];
-                            lastEventTime = 0;
-                        }
-
-                        if (matchedEvents.length > 0 && (currentTime - lastEventTime > sequenceTimeoutMs)) {
-                            if (this.debugMode) {
-                                console.log(`${Hotkeys.LOG_PREFIX} Sequence "${id}" (timeout: ${sequenceTimeoutMs}ms) attempt timed out. Matched: ${matchedEvents.map(e=>e.key).join(",")}. Resetting.`);
-                            }
-                            matchedEvents = [];
-                        }
-
-                        const nextExpectedKeyIndex = matchedEvents.length;
+        const when = this._parseWhen(config);
+        if (when === null) {
+            return EMPTY;
+        }
 
-                        if (nextExpectedKeyIndex >= sequenceLength) {
-                            // Sequence was already emitted or buffer is too long (should not happen if reset correctly)
-                            // Start new sequence if current key matches the first key of the sequence
-                            if (sequenceLength > 0 && compareKey(event.key, configuredSequence[0])) {
-                                return { matchedEvents: [event], lastEventTime: currentTime, emitState: EmitStates.InProgress };
-                            }
-                            return { matchedEvents: [], lastEventTime: 0, emitState: EmitStates.Ignore };
-                        }
+        const terminator$ = new Subject<void>();
+        const matches$ = new Subject<KeyboardEvent[]>();
+        const dispatcher = this._getDispatcher(eventType, target, options);
 
-                        if (compareKey(event.key, configuredSequence[nextExpectedKeyIndex])) {
-                            const newMatchedEvents = [...matchedEvents, event];
-                            if (newMatchedEvents.length === sequenceLength) {
-                                if (this.debugMode && acc.emitState !== EmitStates.Emit) console.log(`${Hotkeys.LOG_PREFIX} Sequence "${id}" (timeout: ${sequenceTimeoutMs}ms) matched.`);
-                                return { matchedEvents: newMatchedEvents, lastEventTime: currentTime, emitState: EmitStates.Emit };
-                            } else {
-                                return { matchedEvents: newMatchedEvents, lastEventTime: currentTime, emitState: EmitStates.InProgress };
-                            }
-                        } else {
-                             // If current key breaks sequence, check if it starts a new sequence
-                            if (matchedEvents.length > 0 && this.debugMode) {
-                                 console.log(`${Hotkeys.LOG_PREFIX} Sequence "${id}" (timeout: ${sequenceTimeoutMs}ms) broken by key "${event.key}". Matched: ${matchedEvents.map(e=>e.key).join(",")}. Resetting.`);
-                            }
-                            if (sequenceLength > 0 && compareKey(event.key, configuredSequence[0])) {
-                                return { matchedEvents: [event], lastEventTime: currentTime, emitState: EmitStates.InProgress };
-                            } else {
-                                return { matchedEvents: [], lastEventTime: 0, emitState: EmitStates.Ignore };
-                            }
-                        }
-                    },
-                    { matchedEvents: [], lastEventTime: 0, emitState: EmitStates.Ignore }
-                ),
-                filter(state => state.emitState === EmitStates.Emit),
-                map(state => state.matchedEvents)
-            );
-        } else {
-            // No timeout logic: simple buffer-based matching
-            shortcut$ = baseKeydownStream$.pipe(
-                bufferCount(sequenceLength, 1),
-                filter((events: KeyboardEvent[]) => {
-                    if (events.length < sequenceLength) return false;
-                    return events.every((event, index) => compareKey(event.key, configuredSequence[index]));
-                })
-            );
+        const logDetails = `Sequence: ${sequenceToString(configuredSequence)}${sequenceTimeoutMs && sequenceTimeoutMs > 0 ? ` (timeout: ${sequenceTimeoutMs}ms)` : ""}`;
+        const shortcut: ActiveShortcut = { id, config, terminator$, parsedSequence: configuredSequence, dispatcher, matches$, when, enabled: !this.keymapOverrides.get(id)?.disabled, defaultConfig };
+        if (!this._checkConflicts(shortcut)) {
+            return EMPTY;
         }
+        this._registerShortcut(shortcut, ShortcutTypes.Sequence, logDetails);
+        this._attachShortcut(dispatcher, shortcut);
 
-        const terminator$ = new Subject<void>();
-        const finalShortcutWithPriority$ = shortcut$.pipe(
-            withLatestFrom(this.activeContext$),
-            filter(([_completedEvents, activeCtx]) => {
-                if (context != null || strict) { // This sequence is NOT global or strict
-                    return true;
-                }
-                // This sequence IS global. Check for specific overrides.
-                if (activeCtx == null) { // No specific context active
-                    return true;
-                }
-                for (const [, otherAS] of this.activeShortcuts) {
-                    if (otherAS.config.id !== id &&
-                        "sequence" in otherAS.config &&
-                        otherAS.config.context === activeCtx &&
-                        this._areSequencesIdentical(configuredSequence, typeof otherAS.config.sequence === "string" ? this._parseSequenceString(otherAS.config.sequence) : otherAS.config.sequence)) {
-                        if (this.debugMode) {
-                            console.log(`${Hotkeys.LOG_PREFIX} Global sequence shortcut "${id}" suppressed by identical specific-context shortcut "${otherAS.config.id}".`);
-                        }
-                        return false; // Suppress global
-                    }
-                }
-                return true; // Global sequence can proceed
-            }),
-            map(([events]) => events),
+        const shortcut$ = matches$.pipe(
             tap((events: KeyboardEvent[]) => {
                 if (this.debugMode) {
                     const timeoutInfo = (sequenceTimeoutMs && sequenceTimeoutMs > 0) ? ` (with timeout logic)` : ` (no timeout logic)`;
@@ -928,16 +2202,103 @@ export class Hotkeys {
             catchError(err => {
                 console.error(`${Hotkeys.LOG_PREFIX} Error in sequence stream for shortcut "${id}":`, err);
                 return EMPTY;
-            })
-        );
-
-        const logDetails = `Sequence: ${configuredSequence.join(" -> ")}${sequenceTimeoutMs && sequenceTimeoutMs > 0 ? ` (timeout: ${sequenceTimeoutMs}ms)` : ""}`;
-        this._registerShortcut(config, terminator$, ShortcutTypes.Sequence, logDetails);
-
-        return finalShortcutWithPriority$.pipe(
+            }),
             map((events: KeyboardEvent[]) => events[events.length - 1]),
             takeUntil(terminator$)
         );
+        this._bindCommand(shortcut, shortcut$);
+        return shortcut$;
+    }
+
+    /**
+     * Runs the command of a shortcut bound to one (see `ShortcutConfigBase.command`) each time the shortcut fires.
+     * The command is looked up when the shortcut fires, so it may be registered after the shortcut.
+     */
+    private _bindCommand(shortcut: ActiveShortcut, shortcut$: Observable<KeyboardEvent>): void {
+        const { command } = shortcut.config;
+        if (command == null) {
+            return;
+        }
+        shortcut$.subscribe(event => {
+            const registered = this.commands.get(command);
+            if (!registered) {
+                console.warn(`${Hotkeys.LOG_PREFIX} Command "${command}" of shortcut "${shortcut.id}" is not registered.`);
+                return;
+            }
+            if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${shortcut.id}" runs command "${command}".`);
+            try {
+                registered.handler(shortcut.config.args, event);
+            } catch (error) {
+                console.error(`${Hotkeys.LOG_PREFIX} Error in command "${command}" run by shortcut "${shortcut.id}":`, error);
+            }
+        });
+    }
+
+    /**
+     * Registers a command: an action that shortcuts can run by referencing its ID in their `command`,
+     * and that menus or buttons can run with `executeCommand`. Registering a command with the ID
+     * of a registered one replaces it.
+     * @param id - The unique ID of the command.
+     * @param handler - Called with the `args` of the shortcut (or of `executeCommand`) and the event, if any.
+     * @param metadata - A description and category, used by the shortcuts bound to the command that have none.
+     * @returns A function that unregisters the command. Shortcuts bound to it stay registered.
+     * @example
+     * ```typescript
+     * hotkeys.registerCommand("editor.fold", (args: { levels: number } | undefined) => fold(args?.levels ?? 1), { description: "Fold" });
+     * hotkeys.addCombination({ id: "fold", keys: "ctrl+[BracketLeft]", command: "editor.fold", context: "editor" });
+     * hotkeys.addSequence({ id: "foldAll", sequence: "ctrl+k -> ctrl+0", command: "editor.fold", args: { levels: 99 } });
+     * foldButton.onclick = () => hotkeys.executeCommand("editor.fold");
+     * ```
+     */
+    public registerCommand<A = unknown>(id: string, handler: CommandHandler<A>, metadata: CommandMetadata = {}): () => void {
+        if (this.commands.has(id)) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Command with ID "${id}" already exists. It will be overwritten.`);
+        }
+        // The arguments come from bindings and `executeCommand` calls; their type is the caller's contract.
+        const registered: RegisteredCommand = { handler: handler as CommandHandler, metadata: { ...metadata } };
+        this.commands.set(id, registered);
+        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Command "${id}" registered.`);
+        this.shortcutChangeSubject$.next();
+        return () => {
+            // Leave a command registered again under the same ID in place.
+            if (this.commands.get(id) === registered) {
+                this.commands.delete(id);
+                if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Command "${id}" unregistered.`);
+                this.shortcutChangeSubject$.next();
+            }
+        };
+    }
+
+    /**
+     * Checks if a command with the given ID is registered.
+     */
+    public hasCommand(id: string): boolean {
+        return this.commands.has(id);
+    }
+
+    /**
+     * Runs a registered command, e.g. from a menu item or a button. Errors thrown by the handler are not caught.
+     * @param id - The ID of the command.
+     * @param args - The arguments passed to the handler.
+     * @returns True if the command was found and run, false otherwise.
+     * A warning is logged to the console if no command with the given ID is registered.
+     */
+    public executeCommand(id: string, args?: unknown): boolean {
+        const registered = this.commands.get(id);
+        if (!registered) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Command with ID "${id}" not found to execute.`);
+            return false;
+        }
+        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Executing command "${id}".`);
+        registered.handler(args);
+        return true;
+    }
+
+    /**
+     * Gets the metadata of the command a shortcut is bound to, or an empty object.
+     */
+    private _getCommandMetadata(config: ShortcutConfig): CommandMetadata {
+        return (config.command != null ? this.commands.get(config.command)?.metadata : undefined) ?? {};
     }
 
     /**
@@ -950,36 +2311,695 @@ export class Hotkeys {
     public remove(id: string): boolean {
         const shortcut = this.activeShortcuts.get(id);
         if (shortcut) {
-            shortcut.terminator$.next();
-            shortcut.terminator$.complete();
+            this._terminateShortcut(shortcut);
             this.activeShortcuts.delete(id);
             if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${id}" removed.`);
+            this.shortcutChangeSubject$.next();
             return true;
         }
         console.warn(`${Hotkeys.LOG_PREFIX} Shortcut with ID "${id}" not found for removal.`);
         return false;
     }
 
+    /**
+     * Changes the keys of a registered shortcut in place. Unlike adding a shortcut again with the same ID,
+     * its Observable is kept: current subscribers receive the events of the new keys.
+     * The new keys are checked for conflicts, following the `onConflict` policy.
+     * @param id - The unique ID of the shortcut to rebind.
+     * @param keys - The new `keys` of a combination, or the new `sequence` of a sequence shortcut,
+     * in any of the forms `addCombination` and `addSequence` accept. A combination stays a combination
+     * and a sequence stays a sequence.
+     * @returns True if the shortcut was rebound. False if it was not found, the keys are invalid,
+     * or they conflict with another shortcut under the `"error"` policy; the old keys are then kept.
+     * @example
+     * ```typescript
+     * hotkeys.addCombination({ id: "save", keys: "ctrl+s" }).subscribe(save);
+     * hotkeys.rebind("save", "ctrl+shift+s"); // `save` is now called for Ctrl+Shift+S
+     * ```
+     */
+    public rebind(id: string, keys: KeyCombinationConfig["keys"] | KeySequenceConfig["sequence"]): boolean {
+        const shortcut = this.activeShortcuts.get(id);
+        if (!shortcut) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Shortcut with ID "${id}" not found to rebind.`);
+            return false;
+        }
+
+        let rebound: ActiveShortcut;
+        if (shortcut.parsedSequence) {
+            const parsedSequence = this._normalizeSequence(keys as KeySequenceConfig["sequence"], id);
+            if (!parsedSequence || parsedSequence.length === 0) {
+                console.error(`${Hotkeys.LOG_PREFIX} New sequence for shortcut "${id}" is empty or invalid. Shortcut not rebound.`);
+                return false;
+            }
+            rebound = { ...shortcut, config: { ...shortcut.config, sequence: keys } as KeySequenceConfig, parsedSequence };
+        } else {
+            const parsedTriggers = this._normalizeAndParseTriggers(keys as KeyCombinationConfig["keys"], id);
+            if (parsedTriggers.length === 0) {
+                console.error(`${Hotkeys.LOG_PREFIX} New "keys" definition for combination shortcut "${id}" is empty or invalid. Shortcut not rebound.`);
+                return false;
+            }
+            rebound = { ...shortcut, config: { ...shortcut.config, keys } as KeyCombinationConfig, parsedTriggers };
+        }
+        if (!this._checkConflicts(rebound, "rebound")) {
+            return false;
+        }
+
+        // Swap the matching logic on the same object, so that `matches$` and `terminator$` are kept.
+        this._detachShortcut(shortcut);
+        shortcut.config = rebound.config;
+        shortcut.parsedTriggers = rebound.parsedTriggers;
+        shortcut.parsedSequence = rebound.parsedSequence;
+        this._attachShortcut(shortcut.dispatcher!, shortcut);
+        if (this.debugMode) {
+            const steps = (shortcut.parsedSequence ?? shortcut.parsedTriggers ?? []).map(triggerToString);
+            console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${id}" rebound to: ${steps.join(shortcut.parsedSequence ? " -> " : ", ")}.`);
+        }
+        this.shortcutChangeSubject$.next();
+        return true;
+    }
+
+    /**
+     * Disables a shortcut without removing it: it stops firing, but its Observable stays alive
+     * (subscribers do not need to re-subscribe), until `enable(id)` is called.
+     * A sequence in progress for the shortcut is discarded.
+     * @param id - The unique ID of the shortcut to disable.
+     * @returns True if the shortcut was found, false otherwise.
+     */
+    public disable(id: string): boolean {
+        return this._setEnabled(id, false);
+    }
+
+    /**
+     * Enables a shortcut disabled with `disable(id)`.
+     * @param id - The unique ID of the shortcut to enable.
+     * @returns True if the shortcut was found, false otherwise.
+     */
+    public enable(id: string): boolean {
+        return this._setEnabled(id, true);
+    }
+
+    /**
+     * Checks whether a shortcut is enabled. This does not take `pause()` into account, see `isPaused()`.
+     * @param id - The unique ID of the shortcut to check.
+     * @returns True if the shortcut exists and is enabled, false otherwise.
+     */
+    public isEnabled(id: string): boolean {
+        return this.activeShortcuts.get(id)?.enabled ?? false;
+    }
+
+    /**
+     * Silences every shortcut until `resume()` is called, e.g. during a drag operation or while a native dialog is open.
+     * Subscriptions stay alive, the enabled state of each shortcut is kept, and sequences in progress are discarded.
+     */
+    public pause(): void {
+        if (this.paused) {
+            return;
+        }
+        this.paused = true;
+        for (const { sequenceTrie } of this.liveDispatchers) {
+            sequenceTrie.reset();
+        }
+        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Paused.`);
+        this._updateSequenceProgress();
+        this.shortcutChangeSubject$.next();
+    }
+
+    /**
+     * Lets shortcuts fire again after `pause()`. Shortcuts disabled with `disable(id)` stay disabled.
+     */
+    public resume(): void {
+        if (!this.paused) {
+            return;
+        }
+        this.paused = false;
+        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Resumed.`);
+        this.shortcutChangeSubject$.next();
+    }
+
+    /**
+     * Checks whether the manager is paused (see `pause()`).
+     */
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Records the next shortcut the user presses, e.g. for a "press the new keys" field in a settings page.
+     * Recording starts on subscription. Lone modifier presses and key repeats are ignored, and the recorded
+     * key presses have their default action prevented. While recording, every registered shortcut is silenced
+     * and sequences in progress are discarded.
+     * @param options - See {@link RecordShortcutOptions}.
+     * @returns An Observable that emits the recorded shortcut and completes. It completes without emitting
+     * if the `cancelKey` is pressed. Unsubscribing stops the recording.
+     * @example
+     * ```typescript
+     * hotkeys.recordShortcut({ allowSequence: true }).subscribe(({ keys }) => {
+     *   if (hotkeys.rebind("save", keys)) hotkeys.setKeymapOverride("save", { keys });
+     * });
+     * ```
+     */
+    public recordShortcut(options: RecordShortcutOptions = {}): Observable<RecordedShortcut> {
+        const { target = document, allowSequence = false, timeoutMs = 1000, cancelKey = Keys.Escape } = options;
+        return new Observable<RecordedShortcut>(subscriber => {
+            const steps: ParsedTrigger[] = [];
+            let timer: ReturnType<typeof setTimeout> | null = null;
+
+            const finish = () => {
+                const [trigger, ...rest] = steps.map(({ code, key, ...modifiers }) =>
+                    (code != null ? { code, ...modifiers } : { key: key!, ...modifiers }) as KeyCombinationTrigger);
+                const recorded = rest.length > 0
+                    ? { trigger: [trigger, ...rest], keys: sequenceToString(steps) }
+                    : { trigger, keys: triggerToString(steps[0]) };
+                if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Recorded shortcut "${recorded.keys}".`);
+                subscriber.next(recorded);
+                subscriber.complete();
+            };
+
+            this.activeRecordings++;
+            for (const { sequenceTrie } of this.liveDispatchers) {
+                sequenceTrie.reset();
+            }
+            this._updateSequenceProgress();
+            if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Recording a shortcut.`);
+
+            // Listening in the capture phase marks the recorded events as consumed before shortcuts see them.
+            const subscription = fromEvent<KeyboardEvent>(target, Hotkeys.KEYDOWN_EVENT, { capture: true }).subscribe(event => {
+                if (event.repeat || this._isComposing(event, target) || isModifierKey(event.key)) {
+                    return;
+                }
+                const step = this._toRecordedTrigger(event);
+                if (!step) {
+                    return;
+                }
+                this.consumedEvents.add(event);
+                event.preventDefault();
+                if (cancelKey != null && compareKey(event.key, cancelKey) && !step.ctrlKey && !step.altKey && !step.shiftKey && !step.metaKey) {
+                    if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Recording cancelled.`);
+                    subscriber.complete();
+                    return;
+                }
+                steps.push(step);
+                if (!allowSequence) {
+                    finish();
+                    return;
+                }
+                if (timer != null) clearTimeout(timer);
+                timer = setTimeout(finish, timeoutMs);
+            });
+
+            return () => {
+                subscription.unsubscribe();
+                if (timer != null) clearTimeout(timer);
+                this.activeRecordings--;
+            };
+        });
+    }
+
+    /**
+     * Turns a recorded key press into a trigger. Keys the library does not know, such as dead keys,
+     * are recorded by their physical key.
+     * @returns The trigger, or null if neither the key nor the code is known.
+     */
+    private _toRecordedTrigger(event: KeyboardEvent): ParsedTrigger | null {
+        const modifiers = { ctrlKey: event.ctrlKey, altKey: event.altKey, shiftKey: event.shiftKey, metaKey: event.metaKey };
+        const key = normalizeKey(event.key);
+        if (key && key !== Keys.Unidentified) {
+            return { key, ...modifiers };
+        }
+        const code = event.code ? normalizeCode(`[${event.code}]`) : null;
+        return code ? { code, ...modifiers } : null;
+    }
+
+    private _setEnabled(id: string, enabled: boolean): boolean {
+        const shortcut = this.activeShortcuts.get(id);
+        if (!shortcut) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Shortcut with ID "${id}" not found to ${enabled ? "enable" : "disable"}.`);
+            return false;
+        }
+        if (shortcut.enabled === enabled) {
+            return true;
+        }
+        shortcut.enabled = enabled;
+        if (!enabled && shortcut.parsedSequence) {
+            shortcut.dispatcher?.sequenceTrie.reset(entry => entry.id === id);
+        }
+        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Shortcut "${id}" ${enabled ? "enabled" : "disabled"}.`);
+        this._updateSequenceProgress();
+        this.shortcutChangeSubject$.next();
+        return true;
+    }
+
+    /**
+     * Sets a user customization of a shortcut, e.g. from a settings page: new keys, or disabled.
+     * The override is applied right away if the shortcut is registered (see `rebind`), otherwise when it is added,
+     * and it is saved to the `keymapStorage`. It replaces any previous override of the shortcut.
+     * @param id - The unique ID of the shortcut, registered or not.
+     * @param override - The customization. See {@link KeymapOverride}.
+     * @returns False if the override could not be applied (invalid keys, or a conflict under the `"error"` policy).
+     * The override is then not saved.
+     * @example
+     * ```typescript
+     * const hotkeys = new Hotkeys(null, false, { keymapStorage: new LocalStorageKeymapStorage() });
+     * hotkeys.setKeymapOverride("save", { keys: "ctrl+shift+s" });
+     * hotkeys.setKeymapOverride("print", { disabled: true });
+     * ```
+     */
+    public setKeymapOverride(id: string, override: KeymapOverride): boolean {
+        if (!this._applyKeymapOverride(id, override, this.keymapOverrides.get(id))) {
+            return false;
+        }
+        this.keymapOverrides.set(id, { ...override });
+        this._saveKeymap();
+        return true;
+    }
+
+    /**
+     * Gets the user customizations, by shortcut id.
+     * @returns A copy of the overrides, including those of shortcuts that are not registered.
+     */
+    public getKeymapOverrides(): KeymapOverrides {
+        return Object.fromEntries([...this.keymapOverrides].map(([id, override]) => [id, { ...override }]));
+    }
+
+    /**
+     * Removes the user customization of a shortcut and restores the keys it was registered with.
+     * A shortcut disabled by the override is enabled again.
+     * @param id - The unique ID of the shortcut.
+     * @returns True if the shortcut is registered or had an override, false otherwise.
+     */
+    public resetToDefault(id: string): boolean {
+        const override = this.keymapOverrides.get(id);
+        const shortcut = this.activeShortcuts.get(id);
+        if (!override && !shortcut) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Shortcut with ID "${id}" not found to reset.`);
+            return false;
+        }
+        if (override) {
+            this.keymapOverrides.delete(id);
+            this._saveKeymap();
+        }
+        if (shortcut) {
+            this._restoreDefaults(shortcut, override);
+        }
+        return true;
+    }
+
+    /**
+     * Removes every user customization and restores the keys every registered shortcut was registered with.
+     */
+    public resetAll(): void {
+        const overrides = new Map(this.keymapOverrides);
+        this.keymapOverrides.clear();
+        this._saveKeymap();
+        for (const shortcut of [...this.activeShortcuts.values()]) {
+            this._restoreDefaults(shortcut, overrides.get(shortcut.id));
+        }
+    }
+
+    /**
+     * Gets the keys a user override sets for a shortcut about to be added.
+     * @param isValid Checks that the keys can be parsed for the type of the shortcut.
+     * @returns The keys, or undefined if there are none or they are invalid (the defaults are then used).
+     */
+    private _getUserKeys(id: string, isValid: (keys: ShortcutKeys) => boolean): ShortcutKeys | undefined {
+        const keys = this.keymapOverrides.get(id)?.keys;
+        if (keys === undefined) {
+            return undefined;
+        }
+        if (!isValid(keys)) {
+            console.warn(`${Hotkeys.LOG_PREFIX} Keymap override for shortcut "${id}" has invalid keys. Using the default keys.`);
+            return undefined;
+        }
+        if (this.debugMode) {
+            console.log(`${Hotkeys.LOG_PREFIX} Applying keymap override to shortcut "${id}".`);
+        }
+        return keys;
+    }
+
+    /**
+     * Applies an override to a registered shortcut. Overrides of unregistered shortcuts are applied when they are added.
+     * @param previous The override being replaced, if any. What it set and `override` does not is restored.
+     * @returns False if the keys could not be rebound.
+     */
+    private _applyKeymapOverride(id: string, override: KeymapOverride, previous?: KeymapOverride): boolean {
+        const shortcut = this.activeShortcuts.get(id);
+        if (!shortcut) {
+            return true;
+        }
+        const keys = override.keys ?? (previous?.keys !== undefined ? this._getShortcutKeys(shortcut.defaultConfig) : undefined);
+        if (keys !== undefined && keys !== this._getShortcutKeys(shortcut.config) && !this.rebind(id, keys)) {
+            return false;
+        }
+        if (override.disabled !== undefined) {
+            this._setEnabled(id, !override.disabled);
+        } else if (previous?.disabled) {
+            this._setEnabled(id, true);
+        }
+        return true;
+    }
+
+    /**
+     * Restores the registered keys of a shortcut, and enables it if the removed override disabled it.
+     */
+    private _restoreDefaults(shortcut: ActiveShortcut, removedOverride?: KeymapOverride): void {
+        const defaultKeys = this._getShortcutKeys(shortcut.defaultConfig);
+        if (this._getShortcutKeys(shortcut.config) !== defaultKeys) {
+            this.rebind(shortcut.id, defaultKeys);
+        }
+        if (removedOverride?.disabled) {
+            this._setEnabled(shortcut.id, true);
+        }
+    }
+
+    private _getShortcutKeys(config: ShortcutConfig): ShortcutKeys {
+        return "sequence" in config ? config.sequence : config.keys;
+    }
+
+    private _loadKeymap(): void {
+        if (!this.keymapStorage) {
+            return;
+        }
+        try {
+            const loaded = this.keymapStorage.load();
+            if (isPromiseLike(loaded)) {
+                loaded.then(
+                    overrides => this._mergeLoadedKeymap(overrides),
+                    error => console.error(`${Hotkeys.LOG_PREFIX} Could not load the keymap:`, error),
+                );
+            } else {
+                this._mergeLoadedKeymap(loaded);
+            }
+        } catch (error) {
+            console.error(`${Hotkeys.LOG_PREFIX} Could not load the keymap:`, error);
+        }
+    }
+
+    /**
+     * Adds loaded overrides to the keymap and applies them to the shortcuts already registered,
+     * e.g. when the storage loads asynchronously. Overrides set in the meantime win.
+     */
+    private _mergeLoadedKeymap(overrides: KeymapOverrides | null): void {
+        for (const [id, override] of Object.entries(overrides ?? {})) {
+            if (this.keymapOverrides.has(id)) {
+                continue;
+            }
+            this.keymapOverrides.set(id, override);
+            this._applyKeymapOverride(id, override);
+        }
+    }
+
+    private _saveKeymap(): void {
+        if (!this.keymapStorage) {
+            return;
+        }
+        try {
+            const saved = this.keymapStorage.save(this.getKeymapOverrides());
+            if (isPromiseLike(saved)) {
+                saved.then(undefined, error => console.error(`${Hotkeys.LOG_PREFIX} Could not save the keymap:`, error));
+            }
+        } catch (error) {
+            console.error(`${Hotkeys.LOG_PREFIX} Could not save the keymap:`, error);
+        }
+    }
+
+    /**
+     * Serializes every registered shortcut, in registration order, as a versioned JSON keymap document.
+     * Keys are written in the canonical string syntax (e.g. `"ctrl+shift+k"`, `"g -> i"`), as currently bound:
+     * keymap overrides and `rebind` included, `mod` and per-platform keys resolved for the current platform.
+     * Element targets and listener options cannot be serialized and are left out.
+     * @returns The JSON document, formatted and with properties in a fixed order so that it diffs well.
+     */
+    public exportKeymap(): string {
+        const keymapDocument: KeymapDocument = {
+            version: KEYMAP_VERSION,
+            bindings: [...this.activeShortcuts.values()].map(shortcut => {
+                const { target, options, ...config } = shortcut.config;
+                const keys = shortcut.parsedSequence
+                    ? sequenceToString(shortcut.parsedSequence)
+                    : shortcut.parsedTriggers!.map(triggerToString);
+                return toKeymapBinding(config, keys);
+            }),
+        };
+        return JSON.stringify(keymapDocument, null, 2);
+    }
+
+    /**
+     * Registers the bindings of a keymap document, e.g. one written by `exportKeymap()` or a preset,
+     * and subscribes the handler with the same ID to each of them.
+     * The whole document is validated first: if it is invalid, an error is logged and nothing is registered.
+     * Bindings with neither a handler nor a `command` are skipped with a warning, and bindings that fail to register
+     * (invalid keys or `when` clause, a conflict under the `"error"` policy) are logged like `addCombination` does.
+     * Keymap overrides apply to the imported bindings as to any other.
+     * @param keymap - The document, as JSON or already parsed.
+     * @param handlers - The functions to call when the bindings fire, by shortcut ID. Bindings with a `command` run it as well.
+     * @returns The IDs of the registered bindings.
+     * @example
+     * ```typescript
+     * import vim from "rx-hotkeys/presets/vim.json" with { type: "json" };
+     * hotkeys.importKeymap(vim, { nextItem: () => list.next(), previousItem: () => list.previous() });
+     * ```
+     */
+    public importKeymap(keymap: string | object, handlers: KeymapHandlers = {}): string[] {
+        let keymapDocument: KeymapDocument;
+        try {
+            keymapDocument = parseKeymap(keymap);
+        } catch (error) {
+            if (error instanceof KeymapValidationError) {
+                console.error(`${Hotkeys.LOG_PREFIX} Invalid keymap: ${error.message} Keymap not imported.`);
+                return [];
+            }
+            throw error;
+        }
+        const imported: string[] = [];
+        for (const binding of keymapDocument.bindings) {
+            const handler = handlers[binding.id];
+            if (!handler && binding.command == null) {
+                console.warn(`${Hotkeys.LOG_PREFIX} No handler or command for shortcut "${binding.id}" in keymap. Shortcut not added.`);
+                continue;
+            }
+            const shortcut$ = "sequence" in binding ? this.addSequence(binding) : this.addCombination(binding);
+            if (shortcut$ !== EMPTY) {
+                if (handler) shortcut$.subscribe(handler);
+                imported.push(binding.id);
+            }
+        }
+        if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Imported ${imported.length} of ${keymapDocument.bindings.length} keymap bindings.`);
+        return imported;
+    }
+
     /**
      * Retrieves a list of all currently active (registered) shortcut configurations.
      * This can be useful for displaying available shortcuts to the user or for debugging.
+     * @param filter - Optional. `command` lists only the shortcuts bound to the given command.
      * @returns An array of objects, where each object represents an active shortcut
-     * and includes its `id`, `description` (if provided), `context` (if any),
-     * and `type` (from `ShortcutTypes` enum).
+     * and includes its `id`, `command` and `description` (if provided; the description defaults to the command's),
+     * `context` (if any), `type` (from `ShortcutTypes` enum), whether it is `enabled` and its keys as a display `label`.
+     * @example
+     * ```typescript
+     * const labels = hotkeys.getActiveShortcuts({ command: "editor.fold" }).map(shortcut => shortcut.label);
+     * ```
      */
-    public getActiveShortcuts(): {id: string; description?: string; context?: string | null; type: ShortcutTypes}[] {
-        const shortcuts: Array<{id: string; description?: string; context?: string | null; type: ShortcutTypes}> = [];
+    public getActiveShortcuts(filter: { command?: string } = {}): ShortcutInfo[] {
+        const shortcuts: ShortcutInfo[] = [];
         for (const [id, activeShortcut] of this.activeShortcuts.entries()) {
+            if (filter.command !== undefined && activeShortcut.config.command !== filter.command) {
+                continue;
+            }
             shortcuts.push({
                 id,
-                description: activeShortcut.config.description,
+                command: activeShortcut.config.command,
+                description: activeShortcut.config.description ?? this._getCommandMetadata(activeShortcut.config).description,
                 context: activeShortcut.config.context,
-                type: ("sequence" in activeShortcut.config) ? ShortcutTypes.Sequence : ShortcutTypes.Combination
+                type: activeShortcut.parsedSequence ? ShortcutTypes.Sequence : ShortcutTypes.Combination,
+                enabled: activeShortcut.enabled,
+                label: this._formatLabel(activeShortcut),
             });
         }
         return shortcuts;
     }
 
+    private _formatLabel(shortcut: ActiveShortcut): string {
+        return this._formatLabels(shortcut).join(" / ");
+    }
+
+    /**
+     * Formats each trigger of a combination, or a sequence as a whole, for display.
+     */
+    private _formatLabels(shortcut: ActiveShortcut): string[] {
+        const options = { ...this.labelFormat, platform: this.platform };
+        if (shortcut.parsedSequence) {
+            return [formatShortcut(shortcut.parsedSequence as KeyCombinationTrigger[], options)];
+        }
+        return shortcut.parsedTriggers!.map(trigger => formatShortcut(trigger as KeyCombinationTrigger, options));
+    }
+
+    /**
+     * Lists the registered shortcuts for a help screen, grouped by `category` and then by context.
+     * Categories and contexts are listed in the order their first shortcut was added, with shortcuts
+     * without a category last. A shortcut with several contexts is listed under each of them.
+     * Shortcuts with `hidden: true` are left out.
+     * @returns The categories, each with its context groups and their shortcuts, including their
+     * canonical `triggers`, display `labels` and whether they are `reachable` in the active contexts.
+     * @example
+     * ```typescript
+     * hotkeys.addCombination({ id: "save", keys: "mod+s", category: "File", description: "Save" });
+     * hotkeys.getCheatSheet();
+     * // [{ category: "File", contexts: [{ context: null, shortcuts: [{ id: "save", labels: ["Ctrl+S"], ... }] }] }]
+     * ```
+     */
+    public getCheatSheet(): CheatSheetCategory[] {
+        const categories = new Map<string | null, Map<string | null, CheatSheetEntry[]>>([[null, new Map()]]);
+        const activeRanks = this._getActiveContextRanks();
+        for (const shortcut of this.activeShortcuts.values()) {
+            const { config } = shortcut;
+            if (config.hidden) {
+                continue;
+            }
+            const commandMetadata = this._getCommandMetadata(config);
+            const entry: CheatSheetEntry = {
+                id: shortcut.id,
+                command: config.command,
+                description: config.description ?? commandMetadata.description,
+                type: shortcut.parsedSequence ? ShortcutTypes.Sequence : ShortcutTypes.Combination,
+                tags: config.tags ?? [],
+                triggers: shortcut.parsedSequence ? [sequenceToString(shortcut.parsedSequence)] : shortcut.parsedTriggers!.map(triggerToString),
+                labels: this._formatLabels(shortcut),
+                enabled: shortcut.enabled,
+                reachable: shortcut.enabled && !this.paused && this._isContextAllowed(config, activeRanks) && this._isWhenSatisfied(shortcut),
+            };
+            const category = config.category ?? commandMetadata.category ?? null;
+            if (!categories.has(category)) {
+                categories.set(category, new Map());
+            }
+            const contexts = categories.get(category)!;
+            const shortcutContexts = this._getShortcutContexts(config.context);
+            for (const context of shortcutContexts.length > 0 ? shortcutContexts : [null]) {
+                if (!contexts.has(context)) {
+                    contexts.set(context, []);
+                }
+                contexts.get(context)!.push(entry);
+            }
+        }
+
+        const uncategorized = categories.get(null)!;
+        categories.delete(null);
+        categories.set(null, uncategorized);
+        const cheatSheet: CheatSheetCategory[] = [];
+        for (const [category, contexts] of categories) {
+            if (contexts.size > 0) {
+                cheatSheet.push({ category, contexts: [...contexts].map(([context, shortcuts]) => ({ context, shortcuts })) });
+            }
+        }
+        return cheatSheet;
+    }
+
+    /**
+     * An Observable of the cheat sheet (see `getCheatSheet()`). Emits the current cheat sheet on subscription,
+     * and a new one whenever shortcuts are added, removed, rebound, enabled or disabled, commands are registered
+     * or unregistered, the manager pauses or resumes, or the active contexts or context keys change.
+     *
+     * @example
+     * ```typescript
+     * hotkeys.cheatSheet$.subscribe(categories => renderHelpOverlay(categories));
+     * ```
+     */
+    public get cheatSheet$(): Observable<CheatSheetCategory[]> {
+        return this._watchShortcuts().pipe(map(() => this.getCheatSheet()));
+    }
+
+    /**
+     * Emits on subscription, and whenever the shortcuts, the commands, the active contexts, the context keys
+     * or the paused state change.
+     */
+    private _watchShortcuts(): Observable<unknown> {
+        return merge(this.activeContextList$, this.shortcutChangeSubject$, this.contextKeyChangeSubject$);
+    }
+
+    /**
+     * Searches the shortcuts that can fire in the active contexts, e.g. for a command palette.
+     * Each word of the query is matched, fuzzily and case-insensitively, against the description, ID,
+     * category and formatted key label of each shortcut ("gti" matches "Go to inbox"). Descriptions and
+     * categories default to those of the shortcut's command. Disabled and hidden shortcuts, those in inactive
+     * contexts and those whose `when` clause does not hold are left out. `pause()` is ignored, so that
+     * a palette can pause the shortcuts while it is open.
+     * @param query - The text typed by the user. An empty query lists every shortcut, in registration order.
+     * @param options - See {@link SearchShortcutsOptions}.
+     * @returns The matching shortcuts, best first, with the ranges of the matched characters to highlight.
+     * Shortcuts with equal scores are listed in registration order.
+     * @example
+     * ```typescript
+     * for (const { description, label, highlights } of hotkeys.searchShortcuts("sv fl", { limit: 10 })) {
+     *   renderItem(highlight(description, highlights.description), label);
+     * }
+     * ```
+     */
+    public searchShortcuts(query: string, options: SearchShortcutsOptions = {}): ShortcutSearchResult[] {
+        const activeRanks = this._getActiveContextRanks();
+        const results: ShortcutSearchResult[] = [];
+        for (const shortcut of this.activeShortcuts.values()) {
+            const { config } = shortcut;
+            if (config.hidden || !shortcut.enabled || !this._isContextAllowed(config, activeRanks) || !this._isWhenSatisfied(shortcut)) {
+                continue;
+            }
+            const commandMetadata = this._getCommandMetadata(config);
+            const description = config.description ?? commandMetadata.description;
+            const category = config.category ?? commandMetadata.category;
+            const label = this._formatLabel(shortcut);
+            const match = matchShortcut(query, { description, id: shortcut.id, category, label });
+            if (match) {
+                results.push({
+                    id: shortcut.id,
+                    command: config.command,
+                    description,
+                    category,
+                    context: config.context,
+                    type: shortcut.parsedSequence ? ShortcutTypes.Sequence : ShortcutTypes.Combination,
+                    label,
+                    ...match,
+                });
+            }
+        }
+        results.sort((a, b) => b.score - a.score);
+        return options.limit !== undefined ? results.slice(0, options.limit) : results;
+    }
+
+    /**
+     * Searches the shortcuts like `searchShortcuts()`, and searches again whenever the query changes,
+     * shortcuts or commands are added, removed or changed, or the active contexts or context keys change.
+     * @param query - The query, or an Observable of queries, e.g. the input of a command palette.
+     * @param options - See {@link SearchShortcutsOptions}.
+     * @returns An Observable of the results, emitting when subscribed to and each time they may have changed.
+     * @example
+     * ```typescript
+     * const query$ = fromEvent(input, "input").pipe(map(() => input.value), startWith(""));
+     * hotkeys.searchShortcuts$(query$, { limit: 10 }).subscribe(results => renderPalette(results));
+     * ```
+     */
+    public searchShortcuts$(query: string | Observable<string>, options: SearchShortcutsOptions = {}): Observable<ShortcutSearchResult[]> {
+        return combineLatest([isObservable(query) ? query : of(query), this._watchShortcuts()]).pipe(
+            map(([currentQuery]) => this.searchShortcuts(currentQuery, options)),
+        );
+    }
+
+    /**
+     * Lists the pairs of registered shortcuts that compete for the same keys:
+     * combinations sharing a trigger, identical sequences, sequences that are prefixes of longer ones,
+     * and combinations bound to the first key of a sequence.
+     * Only shortcuts listening on the same target and event, in the same context, are compared:
+     * a shortcut in a specific context overriding a global one is not reported.
+     * @returns The conflicts, with the ids and contexts of the shortcuts involved, in registration order.
+     */
+    public getConflicts(): ShortcutConflict[] {
+        const conflicts: ShortcutConflict[] = [];
+        const checked: ConflictSubject[] = [];
+        for (const shortcut of this.activeShortcuts.values()) {
+            const subject = this._toConflictSubject(shortcut);
+            conflicts.push(...findConflicts(subject, checked, (a, b) => this._contextsOverlap(a, b)));
+            checked.push(subject);
+        }
+        return conflicts;
+    }
+
     /**
      * Cleans up all active subscriptions and resources used by the Hotkeys instance.
      * This method should be called when the Hotkeys instance is no longer needed
@@ -988,12 +3008,20 @@ export class Hotkeys {
      */
     public destroy(): void {
         if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Destroying library instance and terminating all shortcut streams.`);
-        this.activeShortcuts.forEach(shortcut => {
-            shortcut.terminator$.next();
-            shortcut.terminator$.complete();
-        });
+        this.activeShortcuts.forEach(shortcut => this._terminateShortcut(shortcut));
         this.activeShortcuts.clear();
+        if (this.sequenceProgressTimer != null) {
+            clearTimeout(this.sequenceProgressTimer);
+            this.sequenceProgressTimer = null;
+        }
+        this.liveDispatchers.clear();
+        this.subscriptions.unsubscribe();
+        this.sequenceProgressSubject$.complete();
+        this.contextKeyChangeSubject$.complete();
+        this.shortcutChangeSubject$.complete();
+        this.triggerSubject$.complete();
         this.contextStack$.complete();
+        this.overrideContext$.complete();
         if (this.debugMode) console.log(`${Hotkeys.LOG_PREFIX} Library destroyed.`);
     }
 }
@@ -1,9 +1,84 @@
 export {
     type StandardKey,
+    type StandardCode,
     Keys,
+    Codes,
 } from "./keys.js";
 export {
     type KeyCombinationConfig,
     type KeySequenceConfig,
+    type KeyCombinationTrigger,
+    type HotkeysOptions,
+    type SequenceProgress,
+    type SequenceCandidate,
+    type ContextMode,
+    type ContextKeyChange,
+    type ShortcutInfo,
+    type CheatSheetEntry,
+    type CheatSheetContextGroup,
+    type CheatSheetCategory,
+    type CommandHandler,
+    type CommandMetadata,
+    type ShortcutSearchResult,
+    type SearchShortcutsOptions,
+    type RecordShortcutOptions,
+    type RecordedShortcut,
+    type SuppressionReason,
+    type ShortcutTriggerRecord,
     Hotkeys,
 } from "./hotkeys.js";
+export {
+    type ShortcutLabelStyle,
+    type FormatShortcutOptions,
+    formatShortcut,
+} from "./format.js";
+export {
+    type ShortcutSearchField,
+    type HighlightRange,
+} from "./search.js";
+export {
+    type Platform,
+    type PlatformKeys,
+    detectPlatform,
+} from "./platform.js";
+export {
+    type FormTag,
+} from "./editable.js";
+export {
+    type ShortcutConflict,
+    type ConflictType,
+    type ConflictPolicy,
+    type ShortcutContext,
+} from "./conflicts.js";
+export {
+    type ContextKeyValue,
+    type WhenExpression,
+    WhenClauseSyntaxError,
+    parseWhenClause,
+    evaluateWhenClause,
+} from "./when.js";
+export {
+    type ShortcutKeys,
+    type KeymapOverride,
+    type KeymapOverrides,
+    type KeymapStorage,
+    type KeymapDocument,
+    type KeymapBinding,
+    type KeymapCombinationBinding,
+    type KeymapSequenceBinding,
+    type KeymapHandlers,
+    MemoryKeymapStorage,
+    LocalStorageKeymapStorage,
+    KEYMAP_VERSION,
+    KeymapValidationError,
+    parseKeymap,
+} from "./keymap.js";
+export {
+    type ConversionDiagnostic,
+    type VSCodeKeybinding,
+    type VSCodeKeybindingRemoval,
+    type VSCodeConversion,
+    fromVSCodeKeybindings,
+    fromElectronAccelerator,
+    toElectronAccelerator,
+} from "./converters.js";
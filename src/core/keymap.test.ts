@@ -0,0 +1,127 @@
+import { describe, it, beforeEach, afterEach, mock, Mock } from "node:test";
+import assert from "node:assert";
+import { type KeymapOverrides, MemoryKeymapStorage, LocalStorageKeymapStorage, KeymapValidationError, parseKeymap } from "./keymap.js";
+import defaultPreset from "./presets/default.json" with { type: "json" };
+import vimPreset from "./presets/vim.json" with { type: "json" };
+import emacsPreset from "./presets/emacs.json" with { type: "json" };
+
+function validationError(keymap: unknown): KeymapValidationError {
+    try {
+        parseKeymap(keymap);
+    } catch (error) {
+        assert.ok(error instanceof KeymapValidationError);
+        return error;
+    }
+    assert.fail(`Expected ${JSON.stringify(keymap)} to be invalid`);
+}
+
+function createStorage(entries: Record<string, string> = {}): Storage {
+    const data = new Map(Object.entries(entries));
+    return {
+        get length() { return data.size; },
+        key: (index: number) => [...data.keys()][index] ?? null,
+        getItem: (key: string) => data.get(key) ?? null,
+        setItem: (key: string, value: string) => { data.set(key, value); },
+        removeItem: (key: string) => { data.delete(key); },
+        clear: () => data.clear(),
+    };
+}
+
+describe("Keymap", () => {
+    let consoleWarnMock: Mock<Console["warn"]>;
+
+    beforeEach(() => {
+        consoleWarnMock = mock.method(console, "warn", () => {});
+    });
+
+    afterEach(() => {
+        consoleWarnMock.mock.restore();
+    });
+
+    describe("MemoryKeymapStorage", () => {
+        it("should load nothing until something is saved", () => {
+            const storage = new MemoryKeymapStorage();
+            assert.strictEqual(storage.load(), null);
+            storage.save({ save: { keys: "ctrl+shift+s" } });
+            assert.deepStrictEqual(storage.load(), { save: { keys: "ctrl+shift+s" } });
+        });
+
+        it("should copy overrides on save and load", () => {
+            const overrides: KeymapOverrides = { save: { keys: ["ctrl+s"] } };
+            const storage = new MemoryKeymapStorage(overrides);
+            (overrides.save.keys as string[]).push("f2");
+            storage.load()!.save.disabled = true;
+            assert.deepStrictEqual(storage.load(), { save: { keys: ["ctrl+s"] } });
+        });
+    });
+
+    describe("LocalStorageKeymapStorage", () => {
+        it("should save and load overrides as JSON under its key", () => {
+            const webStorage = createStorage();
+            const storage = new LocalStorageKeymapStorage("my-app:keymap", webStorage);
+            assert.strictEqual(storage.load(), null);
+            storage.save({ print: { disabled: true } });
+            assert.strictEqual(webStorage.getItem("my-app:keymap"), JSON.stringify({ print: { disabled: true } }));
+            assert.deepStrictEqual(new LocalStorageKeymapStorage("my-app:keymap", webStorage).load(), { print: { disabled: true } });
+        });
+
+        it("should ignore corrupted entries", () => {
+            const storage = new LocalStorageKeymapStorage("keymap", createStorage({ keymap: "{not json" }));
+            assert.strictEqual(storage.load(), null);
+            assert.strictEqual(new LocalStorageKeymapStorage("keymap", createStorage({ keymap: "[]" })).load(), null);
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 2);
+        });
+
+        it("should log instead of throwing when the storage fails", () => {
+            const webStorage = createStorage();
+            webStorage.setItem = () => { throw new Error("QuotaExceededError"); };
+            new LocalStorageKeymapStorage("keymap", webStorage).save({ save: { keys: "ctrl+s" } });
+            assert.strictEqual(consoleWarnMock.mock.callCount(), 1);
+        });
+
+        it("should do nothing without a storage", () => {
+            const storage = new LocalStorageKeymapStorage();
+            assert.strictEqual(storage.load(), null);
+            storage.save({});
+        });
+    });
+
+    describe("parseKeymap", () => {
+        it("should accept a JSON document or a parsed one", () => {
+            const document = { version: 1, bindings: [{ id: "save", keys: ["ctrl+s"], context: "editor" }, { id: "inbox", sequence: "g -> i", category: "Navigation", tags: [], hidden: true, sequenceTimeoutMs: 500 }] };
+            assert.deepStrictEqual(parseKeymap(JSON.stringify(document)), document);
+            assert.strictEqual(parseKeymap(document), document);
+        });
+
+        it("should report what is invalid and where", () => {
+            const binding = { id: "save", keys: "ctrl+s" };
+            const cases: Array<[unknown, string, RegExp]> = [
+                ["{", "", /Invalid JSON/],
+                [[], "", /Expected an object/],
+                [{ version: 2, bindings: [] }, "version", /Unsupported version 2/],
+                [{ version: 1 }, "bindings", /Expected an array/],
+                [{ version: 1, bindings: [{ id: "save" }] }, "bindings[0]", /Expected either "keys" or "sequence"/],
+                [{ version: 1, bindings: [{ keys: "a" }] }, "bindings[0].id", /Missing property/],
+                [{ version: 1, bindings: [binding, { ...binding, strict: "yes" }] }, "bindings[1].strict", /Expected a boolean/],
+                [{ version: 1, bindings: [{ ...binding, keys: [] }] }, "bindings[0].keys", /Expected a string/],
+                [{ version: 1, bindings: [{ ...binding, keys: { amiga: "ctrl+s" } }] }, "bindings[0].keys", /by platform/],
+                [{ version: 1, bindings: [{ ...binding, tags: "io" }] }, "bindings[0].tags", /Expected an array of strings/],
+                [{ version: 1, bindings: [{ ...binding, target: "#editor" }] }, "bindings[0].target", /Unknown property/],
+                [{ version: 1, bindings: [{ ...binding, resetOnBlur: false }] }, "bindings[0].resetOnBlur", /Unknown property/],
+                [{ version: 1, bindings: [{ ...binding, enableOnFormTags: ["button"] }] }, "bindings[0].enableOnFormTags", /form tags/],
+                [{ version: 1, bindings: [binding, binding] }, "bindings[1].id", /Duplicate ID "save"/],
+            ];
+            for (const [keymap, path, reason] of cases) {
+                const error = validationError(keymap);
+                assert.strictEqual(error.path, path, `Path for ${JSON.stringify(keymap)}`);
+                assert.match(error.message, reason);
+            }
+        });
+
+        it("should accept the bundled presets", () => {
+            for (const preset of [defaultPreset, vimPreset, emacsPreset]) {
+                assert.doesNotThrow(() => parseKeymap(preset));
+            }
+        });
+    });
+});
@@ -0,0 +1,280 @@
+import type { KeyCombinationConfig, KeySequenceConfig } from "./hotkeys.js";
+import type { PlatformKeys } from "./platform.js";
+
+const LOG_PREFIX = "Hotkeys:";
+
+/**
+ * The keys of a shortcut: the `keys` of a combination or the `sequence` of a sequence.
+ */
+export type ShortcutKeys = KeyCombinationConfig["keys"] | KeySequenceConfig["sequence"];
+
+/**
+ * A user customization of one shortcut, layered over the defaults registered in code.
+ */
+export interface KeymapOverride {
+    /** Replaces the default keys (or sequence) of the shortcut. */
+    keys?: ShortcutKeys;
+    /** If true, the shortcut is registered but does not fire. */
+    disabled?: boolean;
+}
+
+/**
+ * User customizations, by shortcut id.
+ */
+export type KeymapOverrides = Record<string, KeymapOverride>;
+
+/**
+ * Persists user keymap overrides. Both methods may be synchronous or return a Promise,
+ * so that overrides can be kept in `localStorage`, IndexedDB or on a server.
+ */
+export interface KeymapStorage {
+    /** Loads the saved overrides, or null if nothing was saved yet. */
+    load(): KeymapOverrides | null | Promise<KeymapOverrides | null>;
+    /** Saves every override, replacing the previous ones. */
+    save(overrides: KeymapOverrides): void | Promise<void>;
+}
+
+/**
+ * Keeps overrides in memory, e.g. for tests or server-side rendering.
+ * Overrides are copied on save and load, like a real storage would serialize them.
+ */
+export class MemoryKeymapStorage implements KeymapStorage {
+    private data: string | null;
+
+    /**
+     * @param initial Optional. The overrides to start with.
+     */
+    constructor(initial?: KeymapOverrides) {
+        this.data = initial ? JSON.stringify(initial) : null;
+    }
+
+    public load(): KeymapOverrides | null {
+        return this.data == null ? null : JSON.parse(this.data);
+    }
+
+    public save(overrides: KeymapOverrides): void {
+        this.data = JSON.stringify(overrides);
+    }
+}
+
+/**
+ * Keeps overrides in `localStorage` (or any other Web Storage) as JSON.
+ * Unavailable storage (private browsing, quota exceeded) and corrupted entries are logged, not thrown.
+ */
+export class LocalStorageKeymapStorage implements KeymapStorage {
+    /**
+     * @param key Optional. The storage key. Defaults to "rx-hotkeys:keymap".
+     * @param storage Optional. The storage to use. Defaults to `localStorage`.
+     */
+    constructor(private readonly key: string = "rx-hotkeys:keymap", private readonly storage?: Storage) {}
+
+    public load(): KeymapOverrides | null {
+        try {
+            const raw = this._getStorage()?.getItem(this.key);
+            if (raw == null) {
+                return null;
+            }
+            const overrides = JSON.parse(raw);
+            if (overrides == null || typeof overrides !== "object" || Array.isArray(overrides)) {
+                console.warn(`${LOG_PREFIX} Ignoring invalid keymap stored under "${this.key}".`);
+                return null;
+            }
+            return overrides;
+        } catch (error) {
+            console.warn(`${LOG_PREFIX} Could not load the keymap stored under "${this.key}":`, error);
+            return null;
+        }
+    }
+
+    public save(overrides: KeymapOverrides): void {
+        try {
+            this._getStorage()?.setItem(this.key, JSON.stringify(overrides));
+        } catch (error) {
+            console.warn(`${LOG_PREFIX} Could not save the keymap under "${this.key}":`, error);
+        }
+    }
+
+    private _getStorage(): Storage | undefined {
+        return this.storage ?? (typeof localStorage !== "undefined" ? localStorage : undefined);
+    }
+}
+
+/**
+ * The version of the keymap document format written by `exportKeymap()`.
+ */
+export const KEYMAP_VERSION = 1;
+
+type SerializableConfig<T> = Omit<T, "target" | "options">;
+
+/**
+ * A key combination in a keymap document. Keys use the combination string syntax (e.g. `"ctrl+shift+k"`),
+ * optionally per platform.
+ */
+export interface KeymapCombinationBinding extends Omit<SerializableConfig<KeyCombinationConfig>, "keys"> {
+    keys: string | string[] | PlatformKeys<string | string[]>;
+}
+
+/**
+ * A key sequence in a keymap document, e.g. `"g -> i"`.
+ */
+export interface KeymapSequenceBinding extends Omit<SerializableConfig<KeySequenceConfig>, "sequence"> {
+    sequence: string | string[];
+}
+
+export type KeymapBinding = KeymapCombinationBinding | KeymapSequenceBinding;
+
+/**
+ * A serialized keymap, as written by `exportKeymap()` and read by `importKeymap()`.
+ * Element targets and `addEventListener` options cannot be serialized and are not part of it.
+ */
+export interface KeymapDocument {
+    version: typeof KEYMAP_VERSION;
+    bindings: KeymapBinding[];
+}
+
+/**
+ * The functions called when the bindings of an imported keymap fire, by shortcut ID.
+ */
+export type KeymapHandlers = Record<string, (event: KeyboardEvent) => void>;
+
+/**
+ * Thrown when a keymap document is invalid.
+ */
+export class KeymapValidationError extends Error {
+    /**
+     * @param reason What went wrong, e.g. `Expected a boolean`.
+     * @param path Where it went wrong, e.g. `bindings[2].strict`.
+     */
+    constructor(reason: string, public readonly path: string) {
+        super(`${reason} at "${path}" in keymap.`);
+        this.name = "KeymapValidationError";
+    }
+}
+
+type Validator = (value: unknown) => boolean;
+
+const isString: Validator = value => typeof value === "string";
+const isBoolean: Validator = value => typeof value === "boolean";
+const isStringArray: Validator = value => Array.isArray(value) && value.length > 0 && value.every(isString);
+const isKeys: Validator = value => isString(value) || isStringArray(value);
+
+const PLATFORM_NAMES = ["mac", "windows", "linux", "default"];
+const FORM_TAGS = ["input", "textarea", "select"];
+
+/**
+ * The properties of a binding, in the order they are written. Each has a validator and the message of its error.
+ */
+const BINDING_PROPERTIES: Record<string, [Validator, string]> = {
+    id: [value => isString(value) && value !== "", "Expected a non-empty string"],
+    command: [value => isString(value) && value !== "", "Expected a non-empty string"],
+    args: [() => true, ""],
+    description: [isString, "Expected a string"],
+    category: [isString, "Expected a string"],
+    tags: [value => Array.isArray(value) && value.every(isString), "Expected an array of strings"],
+    hidden: [isBoolean, "Expected a boolean"],
+    keys: [
+        value => isKeys(value) || (value != null && typeof value === "object" && !Array.isArray(value) && Object.keys(value).length > 0 &&
+            Object.entries(value).every(([platform, keys]) => PLATFORM_NAMES.includes(platform) && isKeys(keys))),
+        "Expected a string, an array of strings or an object of them by platform",
+    ],
+    sequence: [isKeys, "Expected a string or an array of strings"],
+    context: [value => value === null || isString(value) || (Array.isArray(value) && value.every(isString)), "Expected a string, an array of strings or null"],
+    when: [isString, "Expected a string"],
+    event: [value => value === "keydown" || value === "keyup", "Expected \"keydown\" or \"keyup\""],
+    strict: [isBoolean, "Expected a boolean"],
+    preventDefault: [isBoolean, "Expected a boolean"],
+    priority: [value => Number.isFinite(value), "Expected a number"],
+    consume: [isBoolean, "Expected a boolean"],
+    enableOnFormTags: [value => isBoolean(value) || (Array.isArray(value) && value.every(tag => FORM_TAGS.includes(tag))), "Expected a boolean or an array of form tags"],
+    enableOnContentEditable: [isBoolean, "Expected a boolean"],
+    enableDuringComposition: [isBoolean, "Expected a boolean"],
+    sequenceTimeoutMs: [value => Number.isFinite(value) && (value as number) >= 0, "Expected a non-negative number"],
+    resetOnContextChange: [isBoolean, "Expected a boolean"],
+    resetOnBlur: [isBoolean, "Expected a boolean"],
+    resetOnHidden: [isBoolean, "Expected a boolean"],
+};
+
+const SEQUENCE_ONLY_PROPERTIES = ["sequenceTimeoutMs", "resetOnContextChange", "resetOnBlur", "resetOnHidden"];
+
+/**
+ * Builds a binding with its properties in a fixed order, leaving out those that are not set,
+ * so that exporting the same shortcuts always produces the same JSON.
+ * @internal
+ */
+export function toKeymapBinding(config: SerializableConfig<KeyCombinationConfig | KeySequenceConfig>, keys: string[] | string): KeymapBinding {
+    const source: Record<string, unknown> = { ...config, ...("sequence" in config ? { sequence: keys } : { keys }) };
+    const binding: Record<string, unknown> = {};
+    for (const property of Object.keys(BINDING_PROPERTIES)) {
+        const value = source[property];
+        if (value !== undefined && !(property === "context" && (value === null || (Array.isArray(value) && value.length === 0)))) {
+            binding[property] = value;
+        }
+    }
+    return binding as unknown as KeymapBinding;
+}
+
+/**
+ * Parses and validates a keymap document.
+ * @param keymap The document, as JSON or already parsed (e.g. a preset imported from a JSON file).
+ * @returns The validated document.
+ * @throws KeymapValidationError if the document is invalid: malformed JSON, an unsupported version,
+ * unknown or mistyped properties, a binding with both or neither of `keys` and `sequence`, or a duplicate ID.
+ */
+export function parseKeymap(keymap: unknown): KeymapDocument {
+    let parsed: unknown = keymap;
+    if (typeof keymap === "string") {
+        try {
+            parsed = JSON.parse(keymap);
+        } catch (error) {
+            throw new KeymapValidationError(`Invalid JSON (${(error as Error).message})`, "");
+        }
+    }
+    if (!isPlainObject(parsed)) {
+        throw new KeymapValidationError("Expected an object", "");
+    }
+    if (parsed.version !== KEYMAP_VERSION) {
+        throw new KeymapValidationError(`Unsupported version ${JSON.stringify(parsed.version)}, expected ${KEYMAP_VERSION}`, "version");
+    }
+    if (!Array.isArray(parsed.bindings)) {
+        throw new KeymapValidationError("Expected an array", "bindings");
+    }
+    const ids = new Set<string>();
+    parsed.bindings.forEach((binding: unknown, index) => {
+        const path = `bindings[${index}]`;
+        if (!isPlainObject(binding)) {
+            throw new KeymapValidationError("Expected an object", path);
+        }
+        if (("keys" in binding) === ("sequence" in binding)) {
+            throw new KeymapValidationError("Expected either \"keys\" or \"sequence\"", path);
+        }
+        if (!("id" in binding)) {
+            throw new KeymapValidationError("Missing property", `${path}.id`);
+        }
+        for (const [property, value] of Object.entries(binding)) {
+            const rule = BINDING_PROPERTIES[property];
+            if (!rule || ("keys" in binding && SEQUENCE_ONLY_PROPERTIES.includes(property))) {
+                throw new KeymapValidationError("Unknown property", `${path}.${property}`);
+            }
+            if (!rule[0](value)) {
+                throw new KeymapValidationError(rule[1], `${path}.${property}`);
+            }
+        }
+        if (ids.has(binding.id as string)) {
+            throw new KeymapValidationError(`Duplicate ID "${binding.id}"`, `${path}.id`);
+        }
+        ids.add(binding.id as string);
+    });
+    return parsed as unknown as KeymapDocument;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a storage result is asynchronous.
+ * @internal
+ */
+export function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+    return value != null && typeof (value as PromiseLike<T>).then === "function";
+}
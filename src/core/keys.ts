@@ -135,6 +135,114 @@ export const Keys = {
  */
 export type StandardKey = typeof Keys[keyof typeof Keys];
 
+/**
+ * Provides the standard string values for `KeyboardEvent.code`.
+ * A code identifies the *physical* key on the keyboard, regardless of the active layout,
+ * so `Codes.KeyZ` is the key labelled "Z" on a US QWERTY keyboard, "W" on AZERTY
+ * and "Я" on a Russian layout.
+ * These are based on the MDN documentation:
+ * https://developer.mozilla.org/en-US/docs/Web/API/UI_Events/Keyboard_event_code_values
+ *
+ * Use these values for layout-independent shortcuts, either in the object form
+ * (`{ code: Codes.KeyZ, ctrlKey: true }`) or in brackets inside a string (`"ctrl+[KeyZ]"`).
+ */
+export const Codes = {
+    // Alphanumeric Section
+    Backquote: "Backquote",
+    Backslash: "Backslash",
+    BracketLeft: "BracketLeft",
+    BracketRight: "BracketRight",
+    Comma: "Comma",
+    Equal: "Equal",
+    IntlBackslash: "IntlBackslash",
+    IntlRo: "IntlRo",
+    IntlYen: "IntlYen",
+    Minus: "Minus",
+    Period: "Period",
+    Quote: "Quote",
+    Semicolon: "Semicolon",
+    Slash: "Slash",
+
+    Digit0: "Digit0", Digit1: "Digit1", Digit2: "Digit2", Digit3: "Digit3", Digit4: "Digit4",
+    Digit5: "Digit5", Digit6: "Digit6", Digit7: "Digit7", Digit8: "Digit8", Digit9: "Digit9",
+
+    KeyA: "KeyA", KeyB: "KeyB", KeyC: "KeyC", KeyD: "KeyD", KeyE: "KeyE", KeyF: "KeyF", KeyG: "KeyG",
+    KeyH: "KeyH", KeyI: "KeyI", KeyJ: "KeyJ", KeyK: "KeyK", KeyL: "KeyL", KeyM: "KeyM", KeyN: "KeyN",
+    KeyO: "KeyO", KeyP: "KeyP", KeyQ: "KeyQ", KeyR: "KeyR", KeyS: "KeyS", KeyT: "KeyT", KeyU: "KeyU",
+    KeyV: "KeyV", KeyW: "KeyW", KeyX: "KeyX", KeyY: "KeyY", KeyZ: "KeyZ",
+
+    // Functional Keys
+    AltLeft: "AltLeft",
+    AltRight: "AltRight",
+    Backspace: "Backspace",
+    CapsLock: "CapsLock",
+    ContextMenu: "ContextMenu",
+    ControlLeft: "ControlLeft",
+    ControlRight: "ControlRight",
+    Enter: "Enter",
+    MetaLeft: "MetaLeft",
+    MetaRight: "MetaRight",
+    ShiftLeft: "ShiftLeft",
+    ShiftRight: "ShiftRight",
+    Space: "Space",
+    Tab: "Tab",
+
+    // Control Pad Section
+    Delete: "Delete",
+    End: "End",
+    Help: "Help",
+    Home: "Home",
+    Insert: "Insert",
+    PageDown: "PageDown",
+    PageUp: "PageUp",
+
+    // Arrow Pad Section
+    ArrowDown: "ArrowDown",
+    ArrowLeft: "ArrowLeft",
+    ArrowRight: "ArrowRight",
+    ArrowUp: "ArrowUp",
+
+    // Numpad Section
+    NumLock: "NumLock",
+    Numpad0: "Numpad0", Numpad1: "Numpad1", Numpad2: "Numpad2", Numpad3: "Numpad3", Numpad4: "Numpad4",
+    Numpad5: "Numpad5", Numpad6: "Numpad6", Numpad7: "Numpad7", Numpad8: "Numpad8", Numpad9: "Numpad9",
+    NumpadAdd: "NumpadAdd",
+    NumpadComma: "NumpadComma",
+    NumpadDecimal: "NumpadDecimal",
+    NumpadDivide: "NumpadDivide",
+    NumpadEnter: "NumpadEnter",
+    NumpadEqual: "NumpadEqual",
+    NumpadMultiply: "NumpadMultiply",
+    NumpadSubtract: "NumpadSubtract",
+
+    // Function Section
+    Escape: "Escape",
+    F1: "F1", F2: "F2", F3: "F3", F4: "F4",
+    F5: "F5", F6: "F6", F7: "F7", F8: "F8",
+    F9: "F9", F10: "F10", F11: "F11", F12: "F12",
+    F13: "F13", F14: "F14", F15: "F15", F16: "F16",
+    F17: "F17", F18: "F18", F19: "F19", F20: "F20",
+    Fn: "Fn",
+    FnLock: "FnLock",
+    Pause: "Pause",
+    PrintScreen: "PrintScreen",
+    ScrollLock: "ScrollLock",
+
+    // Media Keys (selection)
+    AudioVolumeDown: "AudioVolumeDown",
+    AudioVolumeMute: "AudioVolumeMute",
+    AudioVolumeUp: "AudioVolumeUp",
+    MediaPlayPause: "MediaPlayPause",
+    MediaStop: "MediaStop",
+    MediaTrackNext: "MediaTrackNext",
+    MediaTrackPrevious: "MediaTrackPrevious",
+} as const;
+
+/**
+ * Represents the set of allowed string literal values for physical key codes, derived from the `Codes` object.
+ */
+export type StandardCode = typeof Codes[keyof typeof Codes];
+
 /**
  * A map of common aliases for keys to their standard `StandardKey` value.
  * Used internally for parsing string-based shortcut definitions.
@@ -154,5 +262,6 @@ export const KeyAliases: Record<string, StandardKey> = {
     'ctrl': Keys.Control, 'control': Keys.Control,
     'alt': Keys.Alt, 'option': Keys.Alt,
     'shift': Keys.Shift,
+    'plus': Keys.KeypadAdd,
     // Add any other desired aliases here
 };
@@ -0,0 +1,65 @@
+/**
+ * The operating system families that shortcuts can be tailored for.
+ * `"other"` is used when the platform cannot be determined (e.g. during server-side rendering).
+ */
+export type Platform = "mac" | "windows" | "linux" | "other";
+
+/**
+ * A value that can differ per platform.
+ * The entry matching the current platform is used, falling back to `default`.
+ *
+ * @example
+ * ```typescript
+ * const keys: PlatformKeys<string> = { mac: "meta+backspace", default: "delete" };
+ * ```
+ */
+export interface PlatformKeys<T> {
+    mac?: T;
+    windows?: T;
+    linux?: T;
+    default?: T;
+}
+
+const PLATFORM_KEY_NAMES = ["mac", "windows", "linux", "default"] as const;
+
+/**
+ * Detects the current platform from the browser's `navigator`.
+ * Prefers `navigator.userAgentData.platform`, then `navigator.platform`, then `navigator.userAgent`.
+ * @returns The detected platform, or `"other"` if it cannot be determined.
+ */
+export function detectPlatform(): Platform {
+    if (typeof navigator === "undefined") {
+        return "other";
+    }
+    const nav = navigator as Navigator & { userAgentData?: { platform?: string } };
+    const source = (nav.userAgentData?.platform || nav.platform || nav.userAgent || "").toLowerCase();
+
+    if (/mac|iphone|ipad|ipod/.test(source)) return "mac";
+    if (/win/.test(source)) return "windows";
+    if (/linux|x11|cros/.test(source)) return "linux";
+    return "other";
+}
+
+/**
+ * Checks whether a value is a per-platform map (an object keyed by `mac`, `windows`, `linux` or `default`)
+ * rather than a single trigger object.
+ * @internal
+ */
+export function isPlatformKeys<T>(value: unknown): value is PlatformKeys<T> {
+    if (value == null || typeof value !== "object" || Array.isArray(value)) {
+        return false;
+    }
+    if ("key" in value || "code" in value) {
+        return false;
+    }
+    return PLATFORM_KEY_NAMES.some(name => name in value);
+}
+
+/**
+ * Picks the entry of a per-platform map for the given platform, falling back to `default`.
+ * @internal
+ */
+export function resolvePlatformKeys<T>(value: PlatformKeys<T>, platform: Platform): T | undefined {
+    const specific = platform !== "other" ? value[platform] : undefined;
+    return specific ?? value.default;
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { matchShortcut } from "./search.js";
+
+function score(query: string, description: string): number {
+    return matchShortcut(query, { description })?.score ?? -1;
+}
+
+describe("matchShortcut", () => {
+    it("should match everything with an empty query", () => {
+        assert.deepStrictEqual(matchShortcut("  ", { id: "save" }), { score: 0, highlights: {} });
+    });
+
+    it("should highlight substrings, acronyms and camelCase words", () => {
+        assert.deepStrictEqual(matchShortcut("save", { description: "Save file" })?.highlights, { description: [{ start: 0, end: 4 }] });
+        assert.deepStrictEqual(matchShortcut("gti", { description: "Go to inbox" })?.highlights, {
+            description: [{ start: 0, end: 1 }, { start: 3, end: 4 }, { start: 6, end: 7 }],
+        });
+        assert.deepStrictEqual(matchShortcut("of", { id: "openFile" })?.highlights, { id: [{ start: 0, end: 1 }, { start: 4, end: 5 }] });
+        assert.deepStrictEqual(matchShortcut("ctrl+s", { label: "Ctrl+Shift+S" })?.highlights, { label: [{ start: 0, end: 6 }] });
+    });
+
+    it("should require every word to match a field", () => {
+        assert.deepStrictEqual(matchShortcut("edit UNDO", { description: "Undo", category: "Edit" })?.highlights, {
+            category: [{ start: 0, end: 4 }],
+            description: [{ start: 0, end: 4 }],
+        });
+        assert.strictEqual(matchShortcut("edit redo", { description: "Undo", category: "Edit" }), null);
+        assert.strictEqual(matchShortcut("xyz", { description: "Undo", id: "undo" }), null);
+    });
+
+    it("should merge overlapping highlights", () => {
+        assert.deepStrictEqual(matchShortcut("sa save", { description: "Save" })?.highlights, { description: [{ start: 0, end: 4 }] });
+    });
+
+    it("should rank exact, prefix and word matches first", () => {
+        assert.ok(score("inbox", "Inbox") > score("inbox", "Inbox zero"));
+        assert.ok(score("in", "Inbox") > score("in", "Go to inbox"));
+        assert.ok(score("in", "Go to inbox") > score("in", "Print"));
+        assert.ok(score("tab", "Next tab") > score("tab", "Toggle a bookmark"));
+    });
+
+    it("should weigh descriptions over IDs and IDs over categories", () => {
+        const description = matchShortcut("find", { description: "Find" })!.score;
+        const id = matchShortcut("find", { id: "Find" })!.score;
+        const category = matchShortcut("find", { category: "Find" })!.score;
+        assert.ok(description > id && id > category);
+    });
+});
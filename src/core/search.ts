@@ -0,0 +1,165 @@
+/**
+ * The fields of a shortcut that `searchShortcuts` matches a query against.
+ */
+export type ShortcutSearchField = "description" | "id" | "category" | "label";
+
+/**
+ * Matched characters to highlight, from `start` (inclusive) to `end` (exclusive).
+ */
+export interface HighlightRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * How well a query matched a shortcut, and where.
+ * @internal
+ */
+export interface SearchMatch {
+    score: number;
+    highlights: Partial<Record<ShortcutSearchField, HighlightRange[]>>;
+}
+
+/**
+ * Matches in descriptions count most, and matches in categories least.
+ */
+const FIELD_WEIGHTS: Record<ShortcutSearchField, number> = { description: 1, id: 0.8, label: 0.8, category: 0.6 };
+
+const START_BONUS = 10;
+const WORD_START_BONUS = 8;
+const CONSECUTIVE_BONUS = 8;
+const GAP_PENALTY = 3;
+const EXACT_BONUS = 10;
+
+/**
+ * Matches a query against the fields of a shortcut. Each word of the query must match one of the fields,
+ * as a fuzzy subsequence ("gti" matches "Go to inbox"). Matches at the start of words and runs of consecutive
+ * characters score higher. An empty query matches everything with a score of 0.
+ * @returns The total score and the ranges to highlight by field, or null if a word matches no field.
+ * @internal
+ */
+export function matchShortcut(query: string, fields: Partial<Record<ShortcutSearchField, string>>): SearchMatch | null {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word !== "");
+    const ranges: Partial<Record<ShortcutSearchField, HighlightRange[]>> = {};
+    let score = 0;
+    for (const word of words) {
+        let best: { field: ShortcutSearchField; score: number; indices: number[] } | null = null;
+        for (const [field, text] of Object.entries(fields) as Array<[ShortcutSearchField, string | undefined]>) {
+            const match = text ? fuzzyMatch(word, text) : null;
+            if (match && (!best || match.score * FIELD_WEIGHTS[field] > best.score)) {
+                best = { field, score: match.score * FIELD_WEIGHTS[field], indices: match.indices };
+            }
+        }
+        if (!best) {
+            return null;
+        }
+        score += best.score;
+        (ranges[best.field] ??= []).push(...toRanges(best.indices));
+    }
+
+    const highlights: SearchMatch["highlights"] = {};
+    for (const [field, fieldRanges] of Object.entries(ranges) as Array<[ShortcutSearchField, HighlightRange[]]>) {
+        highlights[field] = mergeRanges(fieldRanges);
+    }
+    return { score, highlights };
+}
+
+/**
+ * Finds the best placement of the characters of a lowercase word, in order, in a text.
+ * Three placements are compared: each occurrence of the word as a substring, the one that prefers
+ * the starts of words (for acronyms), and the leftmost one.
+ * @returns The score and the indices of the matched characters, or null if the text does not contain the word's characters in order.
+ */
+function fuzzyMatch(word: string, text: string): { score: number; indices: number[] } | null {
+    const lowerText = text.toLowerCase();
+    const candidates: number[][] = [];
+    for (let start = lowerText.indexOf(word); start !== -1; start = lowerText.indexOf(word, start + 1)) {
+        candidates.push(Array.from(word, (_, i) => start + i));
+    }
+    for (const preferWordStarts of [true, false]) {
+        const indices: number[] = [];
+        let position = 0;
+        for (const char of word) {
+            let index = -1;
+            if (preferWordStarts) {
+                for (let i = position; i < lowerText.length && index === -1; i++) {
+                    if (lowerText[i] === char && isWordStart(text, i)) index = i;
+                }
+            }
+            if (index === -1) {
+                index = lowerText.indexOf(char, position);
+            }
+            if (index === -1) {
+                return null;
+            }
+            indices.push(index);
+            position = index + 1;
+        }
+        candidates.push(indices);
+    }
+
+    let best: { score: number; indices: number[] } | null = null;
+    for (const indices of candidates) {
+        const score = scoreIndices(text, indices) + (word.length === text.length ? EXACT_BONUS : 0);
+        if (!best || score > best.score) {
+            best = { score, indices };
+        }
+    }
+    return best;
+}
+
+function scoreIndices(text: string, indices: number[]): number {
+    let score = 0;
+    indices.forEach((index, i) => {
+        score += 1;
+        if (index === 0) {
+            score += START_BONUS;
+        } else if (isWordStart(text, index)) {
+            score += WORD_START_BONUS;
+        }
+        if (i > 0) {
+            score += index === indices[i - 1] + 1 ? CONSECUTIVE_BONUS : -GAP_PENALTY;
+        }
+    });
+    return score;
+}
+
+/**
+ * Checks whether a character starts a word: it follows a separator (space, `-`, `.`, `+`...)
+ * or is an uppercase letter after a lowercase one (`camelCase`).
+ */
+function isWordStart(text: string, index: number): boolean {
+    if (index === 0) {
+        return true;
+    }
+    const previous = text[index - 1];
+    const current = text[index];
+    return !/[\p{L}\p{N}]/u.test(previous) ||
+        (previous !== previous.toUpperCase() && current !== current.toLowerCase());
+}
+
+function toRanges(indices: number[]): HighlightRange[] {
+    const ranges: HighlightRange[] = [];
+    for (const index of indices) {
+        const last = ranges[ranges.length - 1];
+        if (last && last.end === index) {
+            last.end++;
+        } else {
+            ranges.push({ start: index, end: index + 1 });
+        }
+    }
+    return ranges;
+}
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+    const merged: HighlightRange[] = [];
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
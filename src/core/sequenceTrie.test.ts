@@ -0,0 +1,144 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert";
+import { SequenceTrie, type SequenceMatch } from "./sequenceTrie.js";
+import { type ParsedTrigger } from "./triggers.js";
+import { Keys } from "./keys.js";
+
+function step(key: string, modifiers: Partial<ParsedTrigger> = {}): ParsedTrigger {
+    return { key: key as ParsedTrigger["key"], ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers };
+}
+
+function keyEvent(key: string, init: Partial<KeyboardEventInit> = {}): KeyboardEvent {
+    return { key, code: "", ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...init } as KeyboardEvent;
+}
+
+describe("SequenceTrie", () => {
+    let matches: SequenceMatch[];
+    let time: number;
+    let trie: SequenceTrie;
+
+    const press = (key: string, init: Partial<KeyboardEventInit> = {}) => {
+        const result = trie.process(keyEvent(key, init));
+        matches.push(...result.matches);
+        result.commit();
+    };
+    const matchedIds = () => matches.map(match => match.entries.map(entry => entry.id).join(","));
+
+    beforeEach(() => {
+        matches = [];
+        time = 0;
+        trie = new SequenceTrie({ now: () => time });
+    });
+
+    it("should track the number of registered sequences", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        assert.strictEqual(trie.size, 1);
+        assert.strictEqual(trie.remove("gi"), true);
+        assert.strictEqual(trie.remove("gi"), false);
+        assert.strictEqual(trie.size, 0);
+    });
+
+    it("should report a sequence once all of its steps are pressed", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        assert.strictEqual(matches.length, 0);
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["gi"]);
+        assert.deepStrictEqual(matches[0].events.map(e => e.key), ["g", "i"]);
+    });
+
+    it("should report identical sequences together", () => {
+        trie.add({ id: "first", steps: [step("g"), step("i")], timeoutMs: 0 });
+        trie.add({ id: "second", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["first,second"]);
+    });
+
+    it("should share prefixes and follow overlapping attempts", () => {
+        trie.add({ id: "gg", steps: [step("g"), step("g")], timeoutMs: 0 });
+        trie.add({ id: "ggi", steps: [step("g"), step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        press("g");
+        press("g");
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["gg", "gg", "ggi"]);
+    });
+
+    it("should match modifier steps and ignore lone modifier presses in between", () => {
+        trie.add({ id: "chord", steps: [step("k", { ctrlKey: true }), step("s", { ctrlKey: true })], timeoutMs: 0 });
+        press("k", { ctrlKey: true });
+        press(Keys.Control, { ctrlKey: true });
+        press("s", { ctrlKey: true });
+        assert.deepStrictEqual(matchedIds(), ["chord"]);
+    });
+
+    it("should break an attempt on a non-matching key", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        press("x");
+        press("i");
+        assert.strictEqual(matches.length, 0);
+    });
+
+    it("should apply each sequence's own timeout", () => {
+        trie.add({ id: "fast", steps: [step("g"), step("i")], timeoutMs: 100 });
+        trie.add({ id: "slow", steps: [step("g"), step("i")], timeoutMs: 500 });
+        press("g");
+        time = 300;
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["slow"]);
+        time = 1000;
+        press("g");
+        time = 1600;
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["slow"]);
+    });
+
+    it("should prune branches and drop attempts into them on remove", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        trie.add({ id: "x", steps: [step("x")], timeoutMs: 0 });
+        press("g");
+        trie.remove("gi");
+        trie.add({ id: "gi2", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("i");
+        assert.strictEqual(matches.length, 0);
+        assert.strictEqual(trie.getEntry("gi"), undefined);
+    });
+
+    it("should not move the cursor for an uncommitted keystroke", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        trie.process(keyEvent("x"));
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["gi"]);
+    });
+
+    it("should discard attempts in progress on reset", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        trie.reset();
+        press("i");
+        assert.strictEqual(matches.length, 0);
+    });
+
+    it("should keep the progress of sequences excluded from a reset", () => {
+        trie.add({ id: "kept", steps: [step("g"), step("i")], timeoutMs: 0 });
+        trie.add({ id: "reset", steps: [step("g"), step("i")], timeoutMs: 0 });
+        press("g");
+        assert.strictEqual(trie.reset(entry => entry.id === "reset"), true);
+        assert.deepStrictEqual(trie.getPending()?.entries.map(entry => entry.id), ["kept"]);
+        press("i");
+        assert.deepStrictEqual(matchedIds(), ["kept"]);
+    });
+
+    it("should report whether a reset affected anything", () => {
+        trie.add({ id: "gi", steps: [step("g"), step("i")], timeoutMs: 0 });
+        assert.strictEqual(trie.reset(), false);
+        press("g");
+        assert.strictEqual(trie.reset(() => false), false);
+        assert.strictEqual(trie.reset(), true);
+        assert.strictEqual(trie.getPending(), null);
+    });
+});
@@ -0,0 +1,359 @@
+import { type ParsedTrigger, triggerToken, eventTokens, isModifierKey } from "./triggers.js";
+
+/**
+ * A sequence registered in a {@link SequenceTrie}.
+ * @internal
+ */
+export interface SequenceEntry {
+    id: string;
+    steps: ParsedTrigger[];
+    /** Maximum time between two consecutive steps. `0` disables the timeout. */
+    timeoutMs: number;
+}
+
+interface TrieNode {
+    depth: number;
+    children: Map<string, TrieNode>;
+    /** Sequences that end at this node. They are identical, step for step. */
+    terminals: SequenceEntry[];
+    /** Sequences that pass through (or end at) this node. */
+    routes: Set<SequenceEntry>;
+    /** The largest timeout among `routes`, or `Infinity` if any of them has none. */
+    maxTimeoutMs: number;
+}
+
+interface CursorState {
+    node: TrieNode;
+    events: KeyboardEvent[];
+    times: number[];
+    /** Sequences this attempt may no longer complete, because they were reset while it was in progress. */
+    excluded?: Set<SequenceEntry>;
+}
+
+/**
+ * One or more identical sequences completed by a keystroke.
+ * @internal
+ */
+export interface SequenceMatch {
+    /** The completed sequences (all of them share the same steps). */
+    entries: SequenceEntry[];
+    /** The events that matched the steps, in order. */
+    events: KeyboardEvent[];
+}
+
+/**
+ * The outcome of feeding a keystroke to a {@link SequenceTrie}.
+ * @internal
+ */
+export interface SequenceStep {
+    /** The sequences completed by the keystroke. */
+    matches: SequenceMatch[];
+    /**
+     * Moves the cursor past the keystroke. Not committing a step leaves the attempts in progress
+     * as if the keystroke never happened (e.g. when another shortcut consumed it).
+     */
+    commit(): void;
+}
+
+/**
+ * Callbacks and services a {@link SequenceTrie} relies on.
+ * @internal
+ */
+export interface SequenceTrieHooks {
+    /** Called after a keystroke has been committed or the attempts in progress have been discarded. */
+    onChange?: () => void;
+    /** The clock used for sequence timeouts. */
+    now: () => number;
+    /** Receives debug messages (e.g. timed out attempts). */
+    debugLog?: (message: string) => void;
+}
+
+/**
+ * The sequences in progress at the deepest point reached in a trie.
+ * @internal
+ */
+export interface PendingSequences {
+    /** The number of steps matched so far. */
+    depth: number;
+    /** The events that matched those steps. */
+    events: KeyboardEvent[];
+    /** When the last step was matched. */
+    lastTime: number;
+    /** The sequences that can still be completed from here. */
+    entries: SequenceEntry[];
+}
+
+function createNode(depth: number): TrieNode {
+    return { depth, children: new Map(), terminals: [], routes: new Set(), maxTimeoutMs: Infinity };
+}
+
+/**
+ * A prefix trie shared by every sequence listening on the same event stream.
+ *
+ * Each keystroke advances one cursor: the set of trie nodes reached by the recent keystrokes.
+ * Transitions are looked up by token (see {@link triggerToken}), so the cost of a keystroke
+ * depends on the length of the sequences in progress, not on the number of registered sequences.
+ * @internal
+ */
+export class SequenceTrie {
+    private readonly root: TrieNode = createNode(0);
+    private readonly entries = new Map<string, SequenceEntry>();
+    private cursor: CursorState[] = [];
+
+    /**
+     * @param hooks See {@link SequenceTrieHooks}.
+     */
+    constructor(private readonly hooks: SequenceTrieHooks) {}
+
+    /**
+     * The number of registered sequences.
+     */
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Registers a sequence, replacing any sequence already registered with the same id.
+     */
+    public add(entry: SequenceEntry): void {
+        this.remove(entry.id);
+        this.entries.set(entry.id, entry);
+
+        const path: TrieNode[] = [this.root];
+        let node = this.root;
+        for (const step of entry.steps) {
+            const token = triggerToken(step);
+            let child = node.children.get(token);
+            if (!child) {
+                child = createNode(node.depth + 1);
+                node.children.set(token, child);
+            }
+            node = child;
+            path.push(node);
+        }
+        node.terminals.push(entry);
+        for (const pathNode of path) {
+            pathNode.routes.add(entry);
+            this._updateMaxTimeout(pathNode);
+        }
+    }
+
+    /**
+     * Unregisters a sequence and prunes the trie branches only it was using.
+     * @returns True if a sequence with that id was registered.
+     */
+    public remove(id: string): boolean {
+        const entry = this.entries.get(id);
+        if (!entry) {
+            return false;
+        }
+        this.entries.delete(id);
+
+        const path: Array<[TrieNode, string | null]> = [[this.root, null]];
+        let node = this.root;
+        for (const step of entry.steps) {
+            const token = triggerToken(step);
+            node = node.children.get(token)!;
+            path.push([node, token]);
+        }
+        node.terminals = node.terminals.filter(terminal => terminal !== entry);
+        for (let i = path.length - 1; i >= 0; i--) {
+            const [pathNode, token] = path[i];
+            pathNode.routes.delete(entry);
+            this._updateMaxTimeout(pathNode);
+            if (token != null && pathNode.routes.size === 0) {
+                path[i - 1][0].children.delete(token);
+            }
+        }
+        // Drop cursor states that point into pruned branches or can no longer complete any sequence.
+        this.cursor = this.cursor.filter(state => [...state.node.routes].some(route => !state.excluded?.has(route)));
+        return true;
+    }
+
+    /**
+     * Gets a registered sequence by id.
+     */
+    public getEntry(id: string): SequenceEntry | undefined {
+        return this.entries.get(id);
+    }
+
+    /**
+     * Finds the sequences of two or more steps whose first step matches a keystroke,
+     * i.e. the sequences the keystroke could be the beginning of.
+     */
+    public getSequencesStartingWith(event: KeyboardEvent): SequenceEntry[] {
+        const result: SequenceEntry[] = [];
+        for (const child of this._lookup(this.root, eventTokens(event))) {
+            for (const entry of child.routes) {
+                if (entry.steps.length > 1) {
+                    result.push(entry);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Finds the sequences whose first two steps are matched by `first` and then `next`.
+     */
+    public getSequencesContinuing(first: KeyboardEvent, next: KeyboardEvent): SequenceEntry[] {
+        const nextTokens = eventTokens(next);
+        const result = new Set<SequenceEntry>();
+        for (const child of this._lookup(this.root, eventTokens(first))) {
+            for (const grandchild of this._lookup(child, nextTokens)) {
+                for (const entry of grandchild.routes) {
+                    result.add(entry);
+                }
+            }
+        }
+        return [...result];
+    }
+
+    /**
+     * Gets the sequences in progress at the deepest point reached, or null if nothing is in progress.
+     */
+    public getPending(): PendingSequences | null {
+        let pending: PendingSequences | null = null;
+        let seen = new Set<SequenceEntry>();
+        for (const state of this.cursor) {
+            const depth = state.node.depth;
+            if (pending && depth < pending.depth) {
+                continue;
+            }
+            if (!pending || depth > pending.depth) {
+                pending = { depth, events: state.events, lastTime: state.times[state.times.length - 1], entries: [] };
+                seen = new Set();
+            }
+            for (const entry of state.node.routes) {
+                if (entry.steps.length > depth && !state.excluded?.has(entry) && !seen.has(entry)) {
+                    seen.add(entry);
+                    pending.entries.push(entry);
+                }
+            }
+        }
+        return pending;
+    }
+
+    /**
+     * Discards the sequences in progress.
+     * @param shouldReset Optional. Selects the sequences to reset; the others keep their progress.
+     * Defaults to resetting every sequence.
+     * @returns True if any attempt in progress was affected.
+     */
+    public reset(shouldReset: (entry: SequenceEntry) => boolean = () => true): boolean {
+        let changed = false;
+        const cursor: CursorState[] = [];
+        for (const state of this.cursor) {
+            const excluded = new Set(state.excluded);
+            for (const entry of state.node.routes) {
+                if (!excluded.has(entry) && shouldReset(entry)) {
+                    excluded.add(entry);
+                    changed = true;
+                }
+            }
+            if (excluded.size < state.node.routes.size) {
+                cursor.push({ ...state, excluded });
+            }
+        }
+        if (!changed) {
+            return false;
+        }
+        this.cursor = cursor;
+        this.hooks.onChange?.();
+        return true;
+    }
+
+    /**
+     * Matches a keystroke against the attempts in progress and reports every completed sequence.
+     * The cursor only moves once the returned step is committed.
+     */
+    public process(event: KeyboardEvent): SequenceStep {
+        const currentTime = this.hooks.now();
+        const tokens = eventTokens(event);
+        const lonelyModifier = isModifierKey(event.key);
+        const advanced: CursorState[] = [];
+        const kept: CursorState[] = [];
+
+        for (const state of this.cursor) {
+            const lastTime = state.times[state.times.length - 1];
+            if (currentTime - lastTime > state.node.maxTimeoutMs) {
+                // Timed out for every sequence through this node.
+                this.hooks.debugLog?.(`Sequence attempt timed out. Matched: ${state.events.map(e => e.key).join(",")}. Resetting.`);
+                continue;
+            }
+            const children = this._lookup(state.node, tokens);
+            for (const child of children) {
+                if (state.excluded && [...child.routes].every(entry => state.excluded!.has(entry))) {
+                    continue;
+                }
+                advanced.push({ node: child, events: [...state.events, event], times: [...state.times, currentTime], excluded: state.excluded });
+            }
+            // Lone modifier presses (e.g. re-pressing Ctrl between two chords) do not break a sequence.
+            if (children.length === 0 && lonelyModifier) {
+                kept.push(state);
+            }
+        }
+        // Every keystroke may also start a new attempt.
+        for (const child of this._lookup(this.root, tokens)) {
+            advanced.push({ node: child, events: [event], times: [currentTime] });
+        }
+
+        const matches: SequenceMatch[] = [];
+        for (const state of advanced) {
+            if (state.node.terminals.length === 0) {
+                continue;
+            }
+            const completed = state.node.terminals.filter(entry => !state.excluded?.has(entry) && this._isWithinTimeout(entry, state.times));
+            if (completed.length > 0) {
+                matches.push({ entries: completed, events: state.events });
+            }
+        }
+
+        const previousCursor = this.cursor;
+        const nextCursor = [...kept, ...advanced.filter(state => state.node.children.size > 0)];
+        return {
+            matches,
+            commit: () => {
+                // Ignore stale steps, e.g. when the cursor was reset while the step was being dispatched.
+                if (this.cursor !== previousCursor) {
+                    return;
+                }
+                this.cursor = nextCursor;
+                this.hooks.onChange?.();
+            },
+        };
+    }
+
+    private _lookup(node: TrieNode, [keyToken, codeToken]: [string, string]): TrieNode[] {
+        const byKey = node.children.get(keyToken);
+        const byCode = node.children.get(codeToken);
+        if (byKey && byCode) return [byKey, byCode];
+        if (byKey) return [byKey];
+        if (byCode) return [byCode];
+        return [];
+    }
+
+    private _isWithinTimeout(entry: SequenceEntry, times: number[]): boolean {
+        if (!(entry.timeoutMs > 0)) {
+            return true;
+        }
+        for (let i = 1; i < times.length; i++) {
+            if (times[i] - times[i - 1] > entry.timeoutMs) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private _updateMaxTimeout(node: TrieNode): void {
+        let max = 0;
+        for (const entry of node.routes) {
+            if (!(entry.timeoutMs > 0)) {
+                max = Infinity;
+                break;
+            }
+            max = Math.max(max, entry.timeoutMs);
+        }
+        node.maxTimeoutMs = max;
+    }
+}
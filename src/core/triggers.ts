@@ -0,0 +1,217 @@
+import { type StandardKey, type StandardCode, Keys, Codes, KeyAliases } from "./keys.js";
+
+/**
+ * A fully parsed, canonical representation of a single key trigger.
+ * Exactly one of `key` (matched against `event.key`) or `code` (matched against `event.code`) is set.
+ * All modifier keys are explicitly defined as booleans.
+ * @internal
+ */
+export interface ParsedTrigger {
+    key?: StandardKey;
+    code?: StandardCode;
+    ctrlKey: boolean;
+    altKey: boolean;
+    shiftKey: boolean;
+    metaKey: boolean;
+}
+
+type ModifierFlag = "ctrlKey" | "altKey" | "shiftKey" | "metaKey";
+
+/**
+ * Compares a browser event's key with a configured key.
+ * - For single character keys (e.g., "a", "A", "7"), comparison is case-insensitive.
+ * - For multi-character special keys (e.g., "Enter", "ArrowUp"), comparison is case-sensitive.
+ * @param eventKey The `key` property from the `KeyboardEvent`.
+ * @param configuredKey The key string from `Keys` used in the configuration.
+ * @returns True if the keys match according to the rules, false otherwise.
+ */
+export function compareKey(eventKey: string, configuredKey: StandardKey): boolean {
+    if (configuredKey.length === 1 && eventKey.length === 1) {
+        return eventKey.toLowerCase() === configuredKey.toLowerCase();
+    }
+    return eventKey === configuredKey;
+}
+
+/**
+ * Checks whether a browser event matches a parsed trigger, including its modifier state.
+ * Triggers with a `code` are matched against `event.code` (physical key),
+ * all others against `event.key` using {@link compareKey}.
+ * @param trigger The parsed trigger to match.
+ * @param event The KeyboardEvent to match against.
+ * @returns True if both the key (or code) and every modifier match, false otherwise.
+ */
+export function triggerMatchesEvent(trigger: ParsedTrigger, event: KeyboardEvent): boolean {
+    const keyMatch = trigger.code != null
+        ? event.code === trigger.code
+        : compareKey(event.key, trigger.key!);
+    if (!keyMatch) {
+        return false;
+    }
+    // A modifier key sets its own flag while pressed (e.g. `shiftKey` is true for the "Shift" keydown),
+    // so that flag is not part of the comparison for the modifier key itself.
+    const ownFlag = MODIFIER_KEY_FLAGS[event.key];
+    return (ownFlag === "ctrlKey" || event.ctrlKey === trigger.ctrlKey) &&
+        (ownFlag === "altKey" || event.altKey === trigger.altKey) &&
+        (ownFlag === "shiftKey" || event.shiftKey === trigger.shiftKey) &&
+        (ownFlag === "metaKey" || event.metaKey === trigger.metaKey);
+}
+
+/**
+ * Maps modifier key values to the `KeyboardEvent` flag they control.
+ */
+const MODIFIER_KEY_FLAGS: Record<string, ModifierFlag | undefined> = {
+    [Keys.Control]: "ctrlKey",
+    [Keys.Alt]: "altKey",
+    [Keys.Shift]: "shiftKey",
+    [Keys.Meta]: "metaKey",
+};
+
+/**
+ * Checks whether a browser event's key is a modifier key on its own (e.g. "Control", "Shift").
+ */
+export function isModifierKey(eventKey: string): boolean {
+    return eventKey in MODIFIER_KEY_FLAGS || eventKey === Keys.AltGraph || eventKey === Keys.Hyper || eventKey === Keys.Super;
+}
+
+/**
+ * Compares two parsed triggers for equality (same key or code, same modifiers).
+ */
+export function areTriggersIdentical(a: ParsedTrigger, b: ParsedTrigger): boolean {
+    return a.key === b.key &&
+        a.code === b.code &&
+        a.ctrlKey === b.ctrlKey &&
+        a.altKey === b.altKey &&
+        a.shiftKey === b.shiftKey &&
+        a.metaKey === b.metaKey;
+}
+
+/**
+ * Renders a parsed trigger in the combination string syntax (e.g. `"ctrl+shift+k"`, `"[KeyZ]"`).
+ * This is the canonical form: modifiers in a fixed order, and keys that the syntax reserves
+ * (space, `+`) spelled out, so that the string parses back into the same trigger.
+ */
+export function triggerToString(trigger: ParsedTrigger): string {
+    const parts: string[] = [];
+    if (trigger.ctrlKey) parts.push("ctrl");
+    if (trigger.altKey) parts.push("alt");
+    if (trigger.shiftKey) parts.push("shift");
+    if (trigger.metaKey) parts.push("meta");
+    if (trigger.code != null) {
+        parts.push(`[${trigger.code}]`);
+    } else {
+        parts.push(keyToString(trigger.key!));
+    }
+    return parts.join("+");
+}
+
+const KEY_NAMES: Record<string, string | undefined> = {
+    [Keys.Space]: "space",
+    "+": "plus",
+};
+
+/**
+ * Renders a key as it appears in the combination string syntax, e.g. `"k"`, `"ArrowUp"`, `"space"` or `"plus"`.
+ */
+export function keyToString(key: StandardKey): string {
+    return KEY_NAMES[key] ?? (key.length === 1 ? key.toLowerCase() : key);
+}
+
+/**
+ * Renders a parsed sequence in the sequence string syntax (e.g. `"ctrl+k -> ctrl+s"`).
+ */
+export function sequenceToString(sequence: ParsedTrigger[]): string {
+    return sequence.map(triggerToString).join(" -> ");
+}
+
+/**
+ * Normalizes a bracketed physical key token (e.g. `"[KeyZ]"`) into a canonical StandardCode.
+ * The lookup is case-insensitive so that lower-cased combination strings still resolve.
+ * @param token The raw token to normalize, including the surrounding brackets.
+ * @returns A StandardCode if the token is a bracketed, known code, otherwise null.
+ */
+export function normalizeCode(token: string): StandardCode | null {
+    const match = /^\[(.+)\]$/.exec(token.trim());
+    if (!match) {
+        return null;
+    }
+    const normalizedStr = match[1].trim().toLowerCase();
+    return (Object.values(Codes) as string[]).find(c => c.toLowerCase() === normalizedStr) as StandardCode || null;
+}
+
+/**
+ * Checks whether a string token uses the bracketed physical key syntax (e.g. `"[KeyZ]"`).
+ */
+export function isCodeToken(token: string): boolean {
+    const trimmed = token.trim();
+    return trimmed.length > 2 && trimmed.startsWith("[") && trimmed.endsWith("]");
+}
+
+/**
+ * Normalizes a string representation of a key into a canonical StandardKey.
+ * Handles case-insensitivity, aliases, and special characters.
+ * @param key The raw key string to normalize.
+ * @returns A StandardKey if valid, otherwise null.
+ */
+export function normalizeKey(key: string): StandardKey | null {
+    // 1. Handle spacebar explicitly to avoid trimming
+    if (key === Keys.Space) {
+        return Keys.Space;
+    }
+
+    // 2. Trim and convert to lower case for consistent matching
+    const normalizedStr = key.trim().toLowerCase();
+    if (normalizedStr === "") {
+        return null;
+    }
+
+    // 3. Look up in aliases, then in standard key values, then check for single char
+    const finalKey = KeyAliases[normalizedStr] ||
+                     (Object.values(Keys) as string[]).find(k => k.toLowerCase() === normalizedStr) as StandardKey ||
+                     (normalizedStr.length === 1 ? normalizedStr.toUpperCase() as StandardKey : undefined);
+
+    return finalKey || null;
+}
+
+
+/**
+ * Maps physical modifier key codes to the `KeyboardEvent` flag they control.
+ */
+const MODIFIER_CODE_FLAGS: Record<string, ModifierFlag | undefined> = {
+    [Codes.ControlLeft]: "ctrlKey", [Codes.ControlRight]: "ctrlKey",
+    [Codes.AltLeft]: "altKey", [Codes.AltRight]: "altKey",
+    [Codes.ShiftLeft]: "shiftKey", [Codes.ShiftRight]: "shiftKey",
+    [Codes.MetaLeft]: "metaKey", [Codes.MetaRight]: "metaKey",
+};
+
+function modifierMask(flags: Record<ModifierFlag, boolean>, ownFlag: ModifierFlag | undefined): string {
+    return (["ctrlKey", "altKey", "shiftKey", "metaKey"] as const)
+        .map(flag => flag !== ownFlag && flags[flag] ? "1" : "0")
+        .join("");
+}
+
+function keyTokenPart(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Builds a lookup token for a parsed trigger, e.g. `"key:s:1000"` for Ctrl+S or `"code:KeyZ:1000"` for Ctrl+[KeyZ].
+ * Two triggers have the same token exactly when they match the same events, which makes
+ * tokens usable as map keys for constant-time lookups (see {@link eventTokens}).
+ */
+export function triggerToken(trigger: ParsedTrigger): string {
+    if (trigger.code != null) {
+        return `code:${trigger.code}:${modifierMask(trigger, MODIFIER_CODE_FLAGS[trigger.code])}`;
+    }
+    return `key:${keyTokenPart(trigger.key!)}:${modifierMask(trigger, MODIFIER_KEY_FLAGS[trigger.key!])}`;
+}
+
+/**
+ * Builds the lookup tokens a browser event can match: one for its `key` and one for its `code`.
+ * @returns A tuple of the key token and the code token.
+ */
+export function eventTokens(event: KeyboardEvent): [string, string] {
+    return [
+        `key:${keyTokenPart(event.key)}:${modifierMask(event, MODIFIER_KEY_FLAGS[event.key])}`,
+        `code:${event.code}:${modifierMask(event, MODIFIER_CODE_FLAGS[event.code] ?? MODIFIER_KEY_FLAGS[event.key])}`,
+    ];
+}
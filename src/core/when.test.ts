@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { type ContextKeyValue, WhenClauseSyntaxError, parseWhenClause, evaluateWhenClause } from "./when.js";
+
+function evaluate(expression: string, keys: Record<string, ContextKeyValue>): boolean {
+    return evaluateWhenClause(parseWhenClause(expression), key => keys[key]);
+}
+
+function syntaxError(expression: string): WhenClauseSyntaxError {
+    try {
+        parseWhenClause(expression);
+    } catch (error) {
+        assert.ok(error instanceof WhenClauseSyntaxError);
+        return error;
+    }
+    assert.fail(`Expected "${expression}" to be invalid`);
+}
+
+describe("when clauses", () => {
+    describe("parseWhenClause", () => {
+        it("should build an expression tree", () => {
+            assert.deepStrictEqual(parseWhenClause("editorFocus && !readOnly && resourceExtname == .md"), {
+                type: "and",
+                operands: [
+                    { type: "key", key: "editorFocus" },
+                    { type: "not", operand: { type: "key", key: "readOnly" } },
+                    { type: "equals", key: "resourceExtname", value: ".md" },
+                ],
+            });
+        });
+
+        it("should bind && tighter than ||", () => {
+            assert.deepStrictEqual(parseWhenClause("a || b && c"), {
+                type: "or",
+                operands: [
+                    { type: "key", key: "a" },
+                    { type: "and", operands: [{ type: "key", key: "b" }, { type: "key", key: "c" }] },
+                ],
+            });
+        });
+
+        it("should parse literals, quoted strings and numbers", () => {
+            assert.deepStrictEqual(parseWhenClause("true"), { type: "literal", value: true });
+            assert.deepStrictEqual(parseWhenClause("mode == 'insert mode'"), { type: "equals", key: "mode", value: "insert mode" });
+            assert.deepStrictEqual(parseWhenClause("dirty != false"), { type: "notEquals", key: "dirty", value: false });
+            assert.deepStrictEqual(parseWhenClause("count >= 2"), { type: "greaterOrEquals", key: "count", value: 2 });
+        });
+
+        it("should report syntax errors with their position", () => {
+            const cases: Array<[string, number, RegExp]> = [
+                ["", 0, /Expected a context key/],
+                ["a &&", 4, /Expected a context key/],
+                ["(a || b", 7, /Expected "\)"/],
+                ["a b", 2, /Unexpected "b"/],
+                ["a == ", 5, /Expected a value after "=="/],
+                ["count > many", 8, /Expected a number/],
+                ["name =~ abc", 8, /Expected a regular expression/],
+                ["name =~ /(/", 8, /Invalid regular expression/],
+                ["mode == 'insert", 8, /Unterminated string/],
+                ["a not b", 6, /Expected "in" after "not"/],
+                ["a & b", 2, /Unexpected "&"/],
+            ];
+            for (const [expression, position, reason] of cases) {
+                const error = syntaxError(expression);
+                assert.strictEqual(error.position, position, `Position for "${expression}"`);
+                assert.match(error.message, reason);
+                assert.strictEqual(error.expression, expression);
+            }
+        });
+    });
+
+    describe("evaluateWhenClause", () => {
+        it("should test the truthiness of keys", () => {
+            assert.strictEqual(evaluate("editorFocus", { editorFocus: true }), true);
+            assert.strictEqual(evaluate("editorFocus", { editorFocus: "" }), false);
+            assert.strictEqual(evaluate("editorFocus", {}), false);
+            assert.strictEqual(evaluate("!editorFocus", {}), true);
+        });
+
+        it("should evaluate logical operators and parentheses", () => {
+            const keys = { a: true, b: false, c: true };
+            assert.strictEqual(evaluate("a && (b || c)", keys), true);
+            assert.strictEqual(evaluate("!(a && c)", keys), false);
+            assert.strictEqual(evaluate("b || false", keys), false);
+        });
+
+        it("should compare values", () => {
+            const keys = { ext: ".md", readOnly: true, count: 3, zoom: "1.5" };
+            assert.strictEqual(evaluate("ext == .md", keys), true);
+            assert.strictEqual(evaluate("ext != .md", keys), false);
+            assert.strictEqual(evaluate("readOnly == true", keys), true);
+            assert.strictEqual(evaluate("count == 3", keys), true);
+            assert.strictEqual(evaluate("count > 2 && count <= 3", keys), true);
+            assert.strictEqual(evaluate("zoom < 2", keys), true);
+            assert.strictEqual(evaluate("missing > 0", keys), false);
+        });
+
+        it("should match regular expressions", () => {
+            assert.strictEqual(evaluate("file =~ /\\.tsx?$/i", { file: "index.TS" }), true);
+            assert.strictEqual(evaluate("file =~ /\\.tsx?$/", { file: "index.js" }), false);
+            assert.strictEqual(evaluate("file =~ /x/g && file =~ /x/g", { file: "x" }), true);
+        });
+
+        it("should look up values in arrays and objects", () => {
+            const keys = { lang: "ts", supported: ["ts", "js"], features: { ts: true } };
+            assert.strictEqual(evaluate("lang in supported", keys), true);
+            assert.strictEqual(evaluate("lang in features", keys), true);
+            assert.strictEqual(evaluate("lang not in supported", keys), false);
+            assert.strictEqual(evaluate("lang in missing", keys), false);
+        });
+    });
+});
@@ -0,0 +1,336 @@
+/**
+ * A value stored under a context key and tested by `when` clauses.
+ */
+export type ContextKeyValue = string | number | boolean | null | undefined | readonly unknown[] | { readonly [key: string]: unknown };
+
+/**
+ * The expression tree of a parsed `when` clause (see {@link parseWhenClause}).
+ */
+export type WhenExpression =
+    | { type: "literal"; value: boolean }
+    | { type: "key"; key: string }
+    | { type: "not"; operand: WhenExpression }
+    | { type: "and" | "or"; operands: WhenExpression[] }
+    | { type: "equals" | "notEquals"; key: string; value: string | boolean }
+    | { type: "greater" | "greaterOrEquals" | "smaller" | "smallerOrEquals"; key: string; value: number }
+    | { type: "regex"; key: string; regex: RegExp }
+    | { type: "in" | "notIn"; key: string; container: string };
+
+/**
+ * Thrown when a `when` clause cannot be parsed.
+ */
+export class WhenClauseSyntaxError extends Error {
+    /**
+     * @param reason What went wrong, e.g. `Expected ")"`.
+     * @param expression The clause being parsed.
+     * @param position The zero-based offset of the error in `expression`.
+     */
+    constructor(reason: string, public readonly expression: string, public readonly position: number) {
+        super(`${reason} at position ${position} in when clause "${expression}".`);
+        this.name = "WhenClauseSyntaxError";
+    }
+}
+
+type Operator = "(" | ")" | "!" | "&&" | "||" | "==" | "!=" | "<" | "<=" | ">" | ">=" | "=~";
+
+interface Token {
+    kind: "operator" | "word" | "string" | "regex" | "end";
+    text: string;
+    position: number;
+}
+
+// Longest first, so that "<=" is not read as "<".
+const OPERATORS: Operator[] = ["&&", "||", "==", "!=", "<=", ">=", "=~", "(", ")", "!", "<", ">"];
+
+type ComparisonType = "equals" | "notEquals" | "greater" | "greaterOrEquals" | "smaller" | "smallerOrEquals";
+
+const COMPARISONS: Record<string, ComparisonType> = {
+    "==": "equals",
+    "!=": "notEquals",
+    ">": "greater",
+    ">=": "greaterOrEquals",
+    "<": "smaller",
+    "<=": "smallerOrEquals",
+};
+const WORD_PATTERN = /[^\s()!&|=<>'"]+/y;
+const REGEX_PATTERN = /\/((?:[^\\/\n]|\\.)+)\/([a-z]*)/y;
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+    while (position < expression.length) {
+        const char = expression[position];
+        if (/\s/.test(char)) {
+            position++;
+            continue;
+        }
+        const previous = tokens[tokens.length - 1];
+        if (previous?.text === "=~" && previous.kind === "operator") {
+            REGEX_PATTERN.lastIndex = position;
+            const match = REGEX_PATTERN.exec(expression);
+            if (!match) {
+                throw new WhenClauseSyntaxError("Expected a regular expression like /pattern/flags", expression, position);
+            }
+            tokens.push({ kind: "regex", text: match[0], position });
+            position += match[0].length;
+            continue;
+        }
+        if (char === "'" || char === "\"") {
+            const end = expression.indexOf(char, position + 1);
+            if (end === -1) {
+                throw new WhenClauseSyntaxError("Unterminated string", expression, position);
+            }
+            tokens.push({ kind: "string", text: expression.slice(position + 1, end), position });
+            position = end + 1;
+            continue;
+        }
+        const operator = OPERATORS.find(op => expression.startsWith(op, position));
+        if (operator) {
+            tokens.push({ kind: "operator", text: operator, position });
+            position += operator.length;
+            continue;
+        }
+        WORD_PATTERN.lastIndex = position;
+        const word = WORD_PATTERN.exec(expression);
+        if (!word) {
+            throw new WhenClauseSyntaxError(`Unexpected "${char}"`, expression, position);
+        }
+        tokens.push({ kind: "word", text: word[0], position });
+        position += word[0].length;
+    }
+    tokens.push({ kind: "end", text: "", position: expression.length });
+    return tokens;
+}
+
+/**
+ * A recursive descent parser. Operators bind, from loosest to tightest: `||`, `&&`, `!`,
+ * then comparisons (`==`, `!=`, `<`, `<=`, `>`, `>=`, `=~`, `in`, `not in`).
+ */
+class WhenParser {
+    private readonly tokens: Token[];
+    private index = 0;
+
+    constructor(private readonly expression: string) {
+        this.tokens = tokenize(expression);
+    }
+
+    public parse(): WhenExpression {
+        const result = this.parseOr();
+        const token = this.peek();
+        if (token.kind !== "end") {
+            this.fail(`Unexpected "${token.text}"`, token);
+        }
+        return result;
+    }
+
+    private parseOr(): WhenExpression {
+        const operands = [this.parseAnd()];
+        while (this.acceptOperator("||")) {
+            operands.push(this.parseAnd());
+        }
+        return operands.length === 1 ? operands[0] : { type: "or", operands };
+    }
+
+    private parseAnd(): WhenExpression {
+        const operands = [this.parseUnary()];
+        while (this.acceptOperator("&&")) {
+            operands.push(this.parseUnary());
+        }
+        return operands.length === 1 ? operands[0] : { type: "and", operands };
+    }
+
+    private parseUnary(): WhenExpression {
+        if (this.acceptOperator("!")) {
+            return { type: "not", operand: this.parseUnary() };
+        }
+        if (this.acceptOperator("(")) {
+            const inner = this.parseOr();
+            if (!this.acceptOperator(")")) {
+                this.fail("Expected \")\"", this.peek());
+            }
+            return inner;
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): WhenExpression {
+        const keyToken = this.next();
+        if (keyToken.kind !== "word") {
+            this.fail(keyToken.kind === "end" ? "Expected a context key" : `Unexpected "${keyToken.text}"`, keyToken);
+        }
+        const key = keyToken.text;
+        if (key === "true" || key === "false") {
+            return { type: "literal", value: key === "true" };
+        }
+
+        const token = this.peek();
+        if (token.kind === "word" && (token.text === "in" || token.text === "not")) {
+            this.next();
+            if (token.text === "not") {
+                const inToken = this.next();
+                if (inToken.kind !== "word" || inToken.text !== "in") {
+                    this.fail("Expected \"in\" after \"not\"", inToken);
+                }
+            }
+            const container = this.next();
+            if (container.kind !== "word") {
+                this.fail("Expected a context key", container);
+            }
+            return { type: token.text === "in" ? "in" : "notIn", key, container: container.text };
+        }
+        if (token.kind !== "operator") {
+            return { type: "key", key };
+        }
+        if (token.text === "=~") {
+            this.next();
+            return { type: "regex", key, regex: this.parseRegex(this.next()) };
+        }
+        const type = COMPARISONS[token.text];
+        if (!type) {
+            return { type: "key", key };
+        }
+        this.next();
+        const valueToken = this.next();
+        if (valueToken.kind !== "word" && valueToken.kind !== "string") {
+            this.fail(`Expected a value after "${token.text}"`, valueToken);
+        }
+        if (type === "equals" || type === "notEquals") {
+            const value = valueToken.kind === "word" && (valueToken.text === "true" || valueToken.text === "false")
+                ? valueToken.text === "true"
+                : valueToken.text;
+            return { type, key, value };
+        }
+        const value = Number(valueToken.text);
+        if (valueToken.text.trim() === "" || !Number.isFinite(value)) {
+            this.fail(`Expected a number after "${token.text}"`, valueToken);
+        }
+        return { type, key, value };
+    }
+
+    private parseRegex(token: Token): RegExp {
+        if (token.kind !== "regex") {
+            this.fail("Expected a regular expression like /pattern/flags", token);
+        }
+        const end = token.text.lastIndexOf("/");
+        try {
+            return new RegExp(token.text.slice(1, end), token.text.slice(end + 1));
+        } catch (error) {
+            this.fail(`Invalid regular expression (${(error as Error).message})`, token);
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.kind !== "end") {
+            this.index++;
+        }
+        return token;
+    }
+
+    private acceptOperator(operator: Operator): boolean {
+        const token = this.peek();
+        if (token.kind === "operator" && token.text === operator) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private fail(reason: string, token: Token): never {
+        throw new WhenClauseSyntaxError(reason, this.expression, token.position);
+    }
+}
+
+/**
+ * Parses a VS Code-style `when` clause, e.g. `editorFocus && !readOnly && resourceExtname == .md`.
+ *
+ * Supported syntax: context keys (true if the value is truthy), `true`, `false`, `!`, `&&`, `||`, parentheses,
+ * `==` and `!=` (against a bare word or a quoted string; `true`/`false` compare with booleans),
+ * `<`, `<=`, `>`, `>=` (against a number), `=~ /regex/flags`, `key in otherKey` and `key not in otherKey`
+ * (where `otherKey` holds an array or an object).
+ * @param expression The clause to parse.
+ * @returns The expression tree, to be evaluated with {@link evaluateWhenClause}.
+ * @throws WhenClauseSyntaxError if the clause is invalid.
+ */
+export function parseWhenClause(expression: string): WhenExpression {
+    return new WhenParser(expression).parse();
+}
+
+/**
+ * Evaluates a parsed `when` clause.
+ * @param expression The expression tree returned by {@link parseWhenClause}.
+ * @param getContextKey Returns the current value of a context key.
+ */
+export function evaluateWhenClause(expression: WhenExpression, getContextKey: (key: string) => ContextKeyValue): boolean {
+    const evaluate = (node: WhenExpression): boolean => {
+        switch (node.type) {
+            case "literal":
+                return node.value;
+            case "key":
+                return Boolean(getContextKey(node.key));
+            case "not":
+                return !evaluate(node.operand);
+            case "and":
+                return node.operands.every(evaluate);
+            case "or":
+                return node.operands.some(evaluate);
+            case "equals":
+                return valueEquals(getContextKey(node.key), node.value);
+            case "notEquals":
+                return !valueEquals(getContextKey(node.key), node.value);
+            case "greater":
+            case "greaterOrEquals":
+            case "smaller":
+            case "smallerOrEquals":
+                return compareNumber(node.type, getContextKey(node.key), node.value);
+            case "regex": {
+                const value = getContextKey(node.key);
+                node.regex.lastIndex = 0;
+                return typeof value === "string" && node.regex.test(value);
+            }
+            case "in":
+            case "notIn": {
+                const contained = isContainedIn(getContextKey(node.key), getContextKey(node.container));
+                return node.type === "in" ? contained : !contained;
+            }
+        }
+    };
+    return evaluate(expression);
+}
+
+function valueEquals(value: ContextKeyValue, expected: string | boolean): boolean {
+    if (typeof expected === "boolean") {
+        return value === expected;
+    }
+    return (typeof value === "string" || typeof value === "number" || typeof value === "boolean") && String(value) === expected;
+}
+
+function compareNumber(type: "greater" | "greaterOrEquals" | "smaller" | "smallerOrEquals", value: ContextKeyValue, expected: number): boolean {
+    const actual = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+    if (Number.isNaN(actual)) {
+        return false;
+    }
+    switch (type) {
+        case "greater": return actual > expected;
+        case "greaterOrEquals": return actual >= expected;
+        case "smaller": return actual < expected;
+        case "smallerOrEquals": return actual <= expected;
+    }
+}
+
+function isContainedIn(value: ContextKeyValue, container: ContextKeyValue): boolean {
+    if (value == null) {
+        return false;
+    }
+    if (Array.isArray(container)) {
+        return container.includes(value);
+    }
+    if (container != null && typeof container === "object") {
+        return Object.prototype.hasOwnProperty.call(container, String(value));
+    }
+    return false;
+}
@@ -1,11 +1,14 @@
-import { createContext, useState, useContext, useEffect } from "react";
+import { createContext, useState, useContext, useEffect, useRef } from "react";
 import {
     type StandardKey,
+    type StandardCode,
     Keys,
+    Codes,
     Hotkeys,
+    type HotkeysOptions,
 } from "../../core/index.js";
 
-export { Keys, type StandardKey };
+export { Keys, type StandardKey, Codes, type StandardCode };
 
 export type HotkeysContextType = string | null;
 
@@ -16,6 +19,7 @@ export interface HotkeysProviderProps {
     children: React.ReactNode;
     initialContext?: HotkeysContextType;
     debugMode?: boolean;
+    options?: HotkeysOptions;
 }
 
 /**
@@ -27,15 +31,20 @@ export interface HotkeysProviderProps {
  * If this prop changes after the initial mount, the Hotkeys manager will be re-initialized.
  * @param {boolean} [props.debugMode=false] - Whether to enable debug logging for the Hotkeys manager
  * itself and for the provider's initialization.
+ * @param {HotkeysOptions} [props.options] - Additional settings passed to the Hotkeys constructor (e.g. `platform`).
+ * Only the options of the first render are used: later changes are ignored, so an inline object does not
+ * re-initialize the Hotkeys manager on every render.
  */
-export function HotkeysProvider({ children, initialContext = null, debugMode = false }: HotkeysProviderProps) {
+export function HotkeysProvider({ children, initialContext = null, debugMode = false, options }: HotkeysProviderProps) {
     // 1. Initialize manager state as `null`. It will remain `null` during server-side rendering.
     const [manager, setManager] = useState<Hotkeys | null>(null);
+    // Kept from the first render, so that a new `options` object does not re-create the manager.
+    const optionsRef = useRef(options);
 
     // 2. Use `useEffect` to create the Hotkeys instance only on the client-side.
     useEffect(() => {
         // This effect runs only after the component has mounted in the browser.
-        const hotkeysManagerInstance = new Hotkeys(initialContext, debugMode);
+        const hotkeysManagerInstance = new Hotkeys(initialContext, debugMode, optionsRef.current);
         setManager(hotkeysManagerInstance);
 
         if (debugMode) {
@@ -91,7 +100,8 @@ export function useScopedHotkeysContext(scopedContext: HotkeysContextType, enabl
         return () => {
             // Check for manager existence in cleanup as well, just in case.
             if(manager) {
-                manager.leaveContext();
+                // Leave this scope's own entry: sibling scopes may unmount in any order.
+                manager.leaveContext(scopedContext);
             }
         };
     }, [manager, scopedContext, enabled]);